@@ -0,0 +1,18 @@
+-- Image processing state per flash, from publishes (OutboxRelay, backfills) and the image
+-- processor's replies on RABBITMQ_RESULT_QUEUE (see FlashProcessingTracker)
+-- status: pending | pinned | failed | permanently_failed (no longer republished)
+
+CREATE TABLE IF NOT EXISTS flash_processing (
+  flash_id BIGINT PRIMARY KEY,
+  status TEXT NOT NULL,
+  -- Times the flash was published to the image processor
+  attempts INTEGER NOT NULL DEFAULT 0,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  ipfs_cid TEXT,
+  last_published_at TIMESTAMPTZ,
+  last_result_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_processing_status ON flash_processing (status);
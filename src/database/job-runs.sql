@@ -0,0 +1,21 @@
+-- One row per cron task run, written by CronTask.run() (see JobRunRecorder)
+-- outcome: running | success | skipped | failed
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  id BIGSERIAL PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ,
+  outcome TEXT NOT NULL,
+  skip_reason TEXT,
+  flashes_fetched INTEGER NOT NULL DEFAULT 0,
+  flashes_written INTEGER NOT NULL DEFAULT 0,
+  flashes_published INTEGER NOT NULL DEFAULT 0,
+  flashes_cast INTEGER NOT NULL DEFAULT 0,
+  flashes_failed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_started_at ON job_runs (started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started_at ON job_runs (job_name, started_at DESC);
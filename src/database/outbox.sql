@@ -0,0 +1,24 @@
+-- Transactional outbox: events written in the same transaction as the rows they describe,
+-- then published to RabbitMQ by OutboxRelay (at-least-once; sent_at is set after the publish)
+-- event_type: flash_image (payload = FlashImageMessage envelope, published to RABBITMQ_QUEUE)
+
+CREATE TABLE IF NOT EXISTS outbox (
+  id BIGSERIAL PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  flash_id BIGINT,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ
+);
+
+-- Routing priority of flash_image events (high: Flashcastr users, low: bulk)
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'low';
+
+-- Set while a relay publishes the event (see OutboxDb.deliverBatch); an expired lease makes it due again
+ALTER TABLE outbox ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_outbox_pending ON outbox (next_attempt_at, id) WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_sent_at ON outbox (sent_at) WHERE sent_at IS NOT NULL;
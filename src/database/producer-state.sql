@@ -0,0 +1,8 @@
+-- Key/value store for producer state that has to survive restarts
+-- Each feature owns its own key (e.g. 'flash_feed_cursor')
+
+CREATE TABLE IF NOT EXISTS producer_state (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
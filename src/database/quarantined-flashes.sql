@@ -0,0 +1,19 @@
+-- Poison flashes taken out of the retry loops (disk retries, the outbox, image processing)
+-- until an operator requeues or discards them (yarn invaders quarantine ...)
+-- reason: db_write_failed | publish_failed | unexpected_error | processing_failed | dead_lettered
+
+CREATE TABLE IF NOT EXISTS quarantined_flashes (
+  flash_id BIGINT PRIMARY KEY,
+  reason TEXT NOT NULL,
+  -- Failed attempts in the stage that gave up on the flash
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- The flash as last seen, so it can be requeued even if it never reached the flashes table
+  flash JSONB,
+  -- Reason specific context, e.g. the x-death header of a dead-lettered message
+  details JSONB NOT NULL DEFAULT '{}',
+  quarantined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_flashes_reason ON quarantined_flashes (reason, quarantined_at);
@@ -3,21 +3,72 @@ import { initTracing } from "./util/tracing";
 const tracingSdk = initTracing();
 
 import { config } from "dotenv";
-import { CombinedSyncCron } from "./util/cron-jobs/combined-sync";
+import { JobRegistry } from "./util/cron-jobs/registry";
 import { startMetricsServer } from "./util/metrics";
+import { applySchema } from "./util/database/schema";
+import pool from "./util/database/postgresClient";
+import { lifecycle } from "./util/lifecycle";
+import { RabbitMQBase } from "./util/rabbitmq";
+import { outboxRelay } from "./util/outbox";
+import { flashProcessing } from "./util/flash-processing";
+import { flashQuarantine } from "./util/quarantine";
+import { configManager } from "./util/config";
+import { schedulingPolicy } from "./util/scheduling";
 
 config({ path: ".env" });
 
 const main = async () => {
     // Start Prometheus metrics server
     const metricsPort = parseInt(process.env.METRICS_PORT || "9090");
-    startMetricsServer(metricsPort);
+    const metricsServer = startMetricsServer(metricsPort);
 
-    const combinedSyncCron = new CombinedSyncCron("*/5 * * * *");
+    // Shutdown hooks run in this order, after cron tasks have stopped
+    lifecycle.onShutdown("outbox relay", () => outboxRelay.stop());
+    lifecycle.onShutdown("image result consumer", () => flashProcessing.stopConsumer());
+    lifecycle.onShutdown("dead-letter consumer", () => flashQuarantine.stopDeadLetterConsumer());
+    lifecycle.onShutdown(
+        "metrics server",
+        () =>
+            new Promise((resolve) => {
+                metricsServer.close(() => resolve());
+                // Prometheus keeps scrape connections alive
+                metricsServer.closeAllConnections();
+            }),
+    );
+    lifecycle.onShutdown("RabbitMQ connections", () => RabbitMQBase.closeAll());
+    lifecycle.onShutdown("Postgres pool", () => pool.end());
+    if (tracingSdk) {
+        lifecycle.onShutdown("tracing", () => tracingSdk.shutdown());
+    }
+    lifecycle.installSignalHandlers();
 
-    combinedSyncCron.register();
+    // Producer-owned tables (feed cursor etc.)
+    await applySchema(pool);
 
-    await combinedSyncCron.task();
+    // Publishes outbox events left by earlier runs and retries failed ones
+    outboxRelay.start();
+
+    // Pinned / failed replies from the image processor
+    flashProcessing.startConsumer();
+
+    // Image messages dead-lettered by the image queues, into quarantined_flashes
+    flashQuarantine.startDeadLetterConsumer();
+
+    // Jobs and the scheduling policy run with the validated AppConfig
+    const appConfig = configManager.config;
+    schedulingPolicy.configure(appConfig.scheduling);
+    const jobs = new JobRegistry(appConfig.jobs).createEnabled();
+    for (const job of jobs) {
+        lifecycle.registerCron(job.task);
+        job.task.register();
+    }
+
+    // Initial runs go one after another, in registry order
+    for (const job of jobs) {
+        if (job.settings.runOnStart) {
+            await job.task.run();
+        }
+    }
 };
 
 main().catch((error) => {
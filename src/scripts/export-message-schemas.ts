@@ -0,0 +1,16 @@
+#!/usr/bin/env ts-node
+
+import fs from "fs";
+import path from "path";
+import { MESSAGE_JSON_SCHEMAS } from "../util/rabbitmq/message-schema";
+
+// Writes the JSON Schemas of the RabbitMQ messages this bot publishes, for downstream consumers.
+// Usage: yarn schemas:export [output dir, default: schemas]
+const outputDir = path.resolve(process.argv[2] || "schemas");
+
+fs.mkdirSync(outputDir, { recursive: true });
+for (const [file, schema] of Object.entries(MESSAGE_JSON_SCHEMAS)) {
+  const target = path.join(outputDir, file);
+  fs.writeFileSync(target, JSON.stringify(schema, null, 2) + "\n");
+  console.log(`✅ Wrote ${path.relative(process.cwd(), target)}`);
+}
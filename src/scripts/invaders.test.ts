@@ -0,0 +1,175 @@
+import { CronTask } from "../util/cron-jobs/base";
+import { ForceSyncCron } from "../util/cron-jobs/force-sync";
+import { JobRegistry } from "../util/cron-jobs/registry";
+import { QuarantineDb } from "../util/database/quarantine";
+import { JobRunReport } from "../util/job-runs";
+import { flashQuarantine } from "../util/quarantine";
+import { main, parseArgs, runTask } from "./invaders";
+
+jest.mock("../util/database/postgresClient", () => ({ __esModule: true, default: { end: jest.fn() } }));
+jest.mock("../util/rabbitmq", () => ({ RabbitMQBase: { closeAll: jest.fn() } }));
+jest.mock("../util/cron-jobs/force-sync", () => ({ ForceSyncCron: jest.fn() }));
+jest.mock("../util/cron-jobs/registry", () => ({ JobRegistry: jest.fn() }));
+jest.mock("../util/database/quarantine", () => ({ QuarantineDb: jest.fn() }));
+jest.mock("../util/database/invader-flashes", () => ({ PostgresFlashesDb: jest.fn() }));
+jest.mock("../util/database/flash-processing", () => ({ FlashProcessingDb: jest.fn() }));
+jest.mock("../util/quarantine", () => ({ flashQuarantine: { requeue: jest.fn(), discard: jest.fn() } }));
+jest.mock("../util/flash-invaders/malformed", () => ({ MalformedFlashStore: jest.fn() }));
+
+function fakeTask(ran: boolean, report: JobRunReport | null): CronTask {
+  return {
+    name: "fake",
+    run: jest.fn(async () => ran),
+    getLastReport: jest.fn(() => report),
+  } as unknown as CronTask;
+}
+
+const registry = { create: jest.fn() };
+const quarantineDb = { list: jest.fn() };
+const requeue = flashQuarantine.requeue as jest.Mock;
+const discard = flashQuarantine.discard as jest.Mock;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  // usageError() exits; turn that into an exception the test can catch
+  jest.spyOn(process, "exit").mockImplementation(((code?: number) => {
+    throw new Error(`process.exit(${code})`);
+  }) as typeof process.exit);
+  (JobRegistry as jest.Mock).mockImplementation(() => registry);
+  (QuarantineDb as jest.Mock).mockImplementation(() => quarantineDb);
+  registry.create.mockReturnValue(fakeTask(true, {}));
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("parseArgs", () => {
+  it("separates positionals, switches and value flags", () => {
+    const { positionals, flags } = parseArgs(["force-sync", "--since", "2026-10-01", "--dry-run", "--batch=50"]);
+
+    expect(positionals).toEqual(["force-sync"]);
+    expect(Object.fromEntries(flags)).toEqual({ since: "2026-10-01", "dry-run": true, batch: "50" });
+  });
+
+  it("keeps everything after = as the inline value", () => {
+    expect(parseArgs(["--since=a=b"]).flags.get("since")).toBe("a=b");
+  });
+
+  it("exits with 2 on a missing value", () => {
+    expect(() => parseArgs(["force-sync", "--batch"])).toThrow("process.exit(2)");
+    expect(() => parseArgs(["force-sync", "--batch", "--dry-run"])).toThrow("process.exit(2)");
+  });
+
+  it("exits with 2 on an unknown option", () => {
+    expect(() => parseArgs(["list", "--verbose"])).toThrow("process.exit(2)");
+  });
+});
+
+describe("runTask", () => {
+  it("returns 0 for a completed run", async () => {
+    await expect(runTask(fakeTask(true, { counts: { fetched: 3 } }))).resolves.toBe(0);
+  });
+
+  it("returns 1 when the report carries an error", async () => {
+    await expect(runTask(fakeTask(true, { details: { error: "API down" } }))).resolves.toBe(1);
+    await expect(runTask(fakeTask(true, { details: { retryError: "cast failed" } }))).resolves.toBe(1);
+  });
+
+  it("returns 3 when the task skipped itself or didn't run", async () => {
+    await expect(runTask(fakeTask(true, { skipped: "off_peak_hours" }))).resolves.toBe(3);
+    await expect(runTask(fakeTask(false, null))).resolves.toBe(3);
+  });
+});
+
+describe("main", () => {
+  it("shows the help with 0, and with 2 when no command is given", async () => {
+    await expect(main(["--help"])).resolves.toBe(0);
+    await expect(main([])).resolves.toBe(2);
+  });
+
+  it("exits with 2 on an unknown command or job", async () => {
+    await expect(main(["deploy"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["run", "nope"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["run"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["run", "store-flashes", "extra"])).rejects.toThrow("process.exit(2)");
+  });
+
+  it("runs a job through the registry, resolving aliases", async () => {
+    registry.create.mockReturnValue(fakeTask(true, { skipped: "low_activity" }));
+
+    await expect(main(["run", "retry-casts"])).resolves.toBe(3);
+    await expect(main(["run", "store-flashes", "--ignore-schedule"])).resolves.toBe(3);
+
+    expect(registry.create).toHaveBeenNthCalledWith(1, "retry-failed-casts", { ignoreSchedule: false });
+    expect(registry.create).toHaveBeenNthCalledWith(2, "store-flashes", { ignoreSchedule: true });
+  });
+
+  it("doesn't run the job with --dry-run", async () => {
+    await expect(main(["run", "maintenance", "--dry-run"])).resolves.toBe(0);
+    expect(registry.create).not.toHaveBeenCalled();
+  });
+
+  it("passes force-sync flags over the configured defaults", async () => {
+    (ForceSyncCron as jest.Mock).mockImplementation(() => fakeTask(true, {}));
+
+    await expect(
+      main(["force-sync", "--since=2026-10-01", "--batch", "50", "--rate", "2.5", "--city", "Paris", "--restart"]),
+    ).resolves.toBe(0);
+
+    expect(ForceSyncCron).toHaveBeenCalledWith(
+      expect.objectContaining({
+        since: new Date("2026-10-01"),
+        batchSize: 50,
+        messagesPerSecond: 2.5,
+        city: "Paris",
+        restart: true,
+        dryRun: false,
+      }),
+      expect.any(String),
+    );
+  });
+
+  it("exits with 2 on invalid force-sync values", async () => {
+    await expect(main(["force-sync", "--batch", "0"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["force-sync", "--batch", "1.5"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["force-sync", "--since", "yesterday"])).rejects.toThrow("process.exit(2)");
+    expect(ForceSyncCron).not.toHaveBeenCalled();
+  });
+
+  it("requeues quarantined flashes and fails when some couldn't be", async () => {
+    requeue.mockResolvedValueOnce({ requeued: [1, 2], notFound: [], invalid: [] });
+    await expect(main(["quarantine", "requeue", "1", "2"])).resolves.toBe(0);
+    expect(requeue).toHaveBeenCalledWith([1, 2]);
+
+    requeue.mockResolvedValueOnce({ requeued: [1], notFound: [], invalid: [2] });
+    await expect(main(["quarantine", "requeue", "1", "2"])).resolves.toBe(1);
+  });
+
+  it("fails a discard of flashes that weren't quarantined", async () => {
+    discard.mockResolvedValue([{ flash_id: 1 }]);
+
+    await expect(main(["quarantine", "discard", "1", "2"])).resolves.toBe(1);
+  });
+
+  it("skips with 3 when --all matches nothing", async () => {
+    quarantineDb.list.mockResolvedValue([]);
+
+    await expect(main(["quarantine", "requeue", "--all", "--reason", "dead_lettered"])).resolves.toBe(3);
+    expect(quarantineDb.list).toHaveBeenCalledWith({ reason: "dead_lettered" });
+    expect(requeue).not.toHaveBeenCalled();
+  });
+
+  it("exits with 2 on invalid quarantine arguments", async () => {
+    await expect(main(["quarantine", "requeue", "abc"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["quarantine", "requeue", "1", "--all"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["quarantine", "discard"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["quarantine", "list", "--reason", "bored"])).rejects.toThrow("process.exit(2)");
+    await expect(main(["quarantine"])).rejects.toThrow("process.exit(2)");
+  });
+
+  it("lists the flashes a dry run would touch without changing them", async () => {
+    await expect(main(["quarantine", "discard", "3", "4", "--dry-run"])).resolves.toBe(0);
+    expect(discard).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,362 @@
+#!/usr/bin/env ts-node
+
+import { config } from "dotenv";
+import pool from "../util/database/postgresClient";
+import { RabbitMQBase } from "../util/rabbitmq";
+import { CronTask } from "../util/cron-jobs/base";
+import { ForceSyncCron } from "../util/cron-jobs/force-sync";
+import { JobRegistry } from "../util/cron-jobs/registry";
+import { JOB_NAMES, JobName, JobParams, JobsConfig, isJobName, jobsConfigFromEnv } from "../util/cron-jobs/config";
+import { QuarantineDb } from "../util/database/quarantine";
+import { QUARANTINE_REASONS, QuarantineEntry, QuarantineReason } from "../util/database/quarantine/types";
+import { PostgresFlashesDb } from "../util/database/invader-flashes";
+import { FlashProcessingDb } from "../util/database/flash-processing";
+import { flashQuarantine } from "../util/quarantine";
+import { MalformedFlashStore } from "../util/flash-invaders/malformed";
+
+config({ path: ".env" });
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_SKIPPED = 3;
+
+const ALIASES: Record<string, JobName> = {
+  "retry-casts": "retry-failed-casts",
+};
+
+// Parameters each job reads, shown by `list` and `--dry-run`
+const JOB_PARAMS: Record<JobName, (keyof JobParams)[]> = {
+  "combined-sync": ["flashSync", "retryFailedCasts"],
+  "store-flashes": [],
+  "flash-sync": ["flashSync"],
+  "retry-failed-casts": ["retryFailedCasts"],
+  "force-sync": ["forceSync"],
+  "cast-check": ["castCheck"],
+  maintenance: ["maintenance"],
+};
+
+// Flags that take a value; every other known flag is a switch
+const VALUE_FLAGS = ["since", "batch", "rate", "city", "player", "reason", "limit"];
+const SWITCH_FLAGS = ["dry-run", "ignore-schedule", "missing-ipfs", "restart", "all", "help"];
+
+const USAGE = `Usage: yarn invaders <command> [options]
+
+Commands:
+  list                          Show every job with its schedule, whether it is enabled and its parameters
+  run <job>                     Run one job now: ${JOB_NAMES.join(", ")} (alias: retry-casts)
+  force-sync                    Republish flashes to the image processor, resuming from the saved checkpoint
+    --since <date>              Start date, e.g. 2026-10-01 (default: JOB_FORCE_SYNC_SINCE, else JOB_FORCE_SYNC_LOOKBACK_HOURS ago)
+    --batch <n>                 Flashes per page and checkpoint (default: JOB_FORCE_SYNC_BATCH_SIZE)
+    --rate <n>                  Messages per second (default: JOB_FORCE_SYNC_RATE_PER_SECOND)
+    --city <name>               Only flashes in this city
+    --player <name>             Only flashes of this player
+    --missing-ipfs              Only flashes without an ipfs_cid
+    --restart                   Ignore the checkpoint and start from the beginning
+  quarantine list               Show quarantined flashes, newest first
+    --reason <reason>           Only this reason: ${QUARANTINE_REASONS.join(", ")}
+    --limit <n>                 Entries to show (default: 50)
+  quarantine inspect <id>       Show a quarantined flash with its stored row and image processing state
+  quarantine requeue <id...>    Enqueue flashes for publishing again with fresh attempts
+  quarantine discard <id...>    Give up on flashes for good (they are not republished either)
+    --all                       Requeue / discard every quarantined flash (with --reason, every one with that reason)
+  malformed                     Show API items that failed schema validation, newest first
+    --limit <n>                 Items to show (default: 50)
+
+Options:
+  --dry-run                     Show what would run; force-sync also counts the flashes it would publish,
+                                quarantine requeue / discard list the flashes they would touch
+  --ignore-schedule             Call the API even outside the peak windows (store-flashes, combined-sync)
+  --help                        Show this help
+
+Exit codes: 0 success, 1 failed, 2 usage error, 3 skipped`;
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+function usageError(message: string): never {
+  console.error(`❌ ${message}\n`);
+  console.error(USAGE);
+  process.exit(EXIT_USAGE);
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf("=");
+    const name = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+    const inlineValue = equals === -1 ? undefined : arg.slice(equals + 1);
+    if (SWITCH_FLAGS.includes(name)) {
+      flags.set(name, true);
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value.startsWith("--")) usageError(`--${name} needs a value`);
+      flags.set(name, value);
+    } else {
+      usageError(`Unknown option --${name}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function positiveNumberFlag(flags: Map<string, string | true>, name: string, integer: boolean): number | undefined {
+  const value = flags.get(name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!(parsed > 0) || (integer && !Number.isInteger(parsed))) {
+    usageError(`--${name} must be a positive ${integer ? "integer" : "number"}, got: ${value}`);
+  }
+  return parsed;
+}
+
+function stringFlag(flags: Map<string, string | true>, name: string): string | undefined {
+  const value = flags.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+function parseFlashId(value: string): number {
+  const flashId = Number(value);
+  if (!Number.isInteger(flashId) || flashId <= 0) usageError(`Invalid flash id: ${value}`);
+  return flashId;
+}
+
+function reasonFlag(flags: Map<string, string | true>): QuarantineReason | undefined {
+  const value = stringFlag(flags, "reason");
+  if (value === undefined) return undefined;
+  if (!QUARANTINE_REASONS.includes(value as QuarantineReason)) {
+    usageError(`--reason must be one of ${QUARANTINE_REASONS.join(", ")}, got: ${value}`);
+  }
+  return value as QuarantineReason;
+}
+
+function describeQuarantineEntry(entry: QuarantineEntry): string {
+  return `${entry.flash_id}  ${entry.reason}  ${entry.attempts} attempt(s)  ${new Date(entry.quarantined_at).toISOString()}  ${entry.last_error ?? ""}`;
+}
+
+function resolveJobName(value: string | undefined): JobName {
+  if (!value) usageError("run needs a job name");
+  const name = ALIASES[value] ?? value;
+  if (!isJobName(name)) usageError(`Unknown job: ${value}`);
+  return name;
+}
+
+function describeJob(jobsConfig: JobsConfig, name: JobName): void {
+  const settings = jobsConfig.jobs[name];
+  console.log(`${name}  ${settings.enabled ? "enabled " : "disabled"}  ${settings.schedule}${settings.runOnStart ? "  (runs on start)" : ""}`);
+  for (const key of JOB_PARAMS[name]) {
+    console.log(`    ${key}: ${JSON.stringify(jobsConfig.params[key])}`);
+  }
+}
+
+/**
+ * Run a task once and map its outcome to an exit code
+ */
+export async function runTask(task: CronTask): Promise<number> {
+  const startTime = Date.now();
+  console.log(`▶️  Running ${task.name}...`);
+
+  const ran = await task.run();
+  const report = task.getLastReport();
+  const seconds = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  if (!ran || !report) {
+    console.log(`⏭️  ${task.name} did not run (another run is active)`);
+    return EXIT_SKIPPED;
+  }
+
+  if (report.counts) console.log(`   counts: ${JSON.stringify(report.counts)}`);
+  if (report.details) console.log(`   details: ${JSON.stringify(report.details)}`);
+
+  if (report.skipped) {
+    const hint = ["off_peak_hours", "low_activity"].includes(report.skipped) ? " (use --ignore-schedule to run anyway)" : "";
+    console.log(`⏭️  ${task.name} skipped after ${seconds}s: ${report.skipped}${hint}`);
+    return EXIT_SKIPPED;
+  }
+
+  // Tasks that catch their own errors report them in details instead of throwing
+  const error = report.details?.error ?? report.details?.retryError;
+  if (error) {
+    console.error(`❌ ${task.name} failed after ${seconds}s: ${error}`);
+    return EXIT_FAILED;
+  }
+
+  console.log(`✅ ${task.name} finished in ${seconds}s`);
+  return EXIT_OK;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const { positionals, flags } = parseArgs(argv);
+  const [command, ...rest] = positionals;
+  const dryRun = flags.has("dry-run");
+
+  if (flags.has("help") || command === undefined) {
+    console.log(USAGE);
+    return command === undefined && !flags.has("help") ? EXIT_USAGE : EXIT_OK;
+  }
+
+  const jobsConfig = jobsConfigFromEnv();
+  const registry = new JobRegistry(jobsConfig);
+
+  switch (command) {
+    case "list":
+      console.log(`Preset: ${jobsConfig.preset}\n`);
+      for (const name of JOB_NAMES) describeJob(jobsConfig, name);
+      return EXIT_OK;
+
+    case "run": {
+      if (rest.length > 1) usageError(`Unexpected arguments: ${rest.slice(1).join(" ")}`);
+      const name = resolveJobName(rest[0]);
+
+      if (dryRun) {
+        describeJob(jobsConfig, name);
+        console.log(`\n[dry-run] ${name} not executed`);
+        return EXIT_OK;
+      }
+
+      return await runTask(registry.create(name, { ignoreSchedule: flags.has("ignore-schedule") }));
+    }
+
+    case "force-sync": {
+      if (rest.length > 0) usageError(`Unexpected arguments: ${rest.join(" ")}`);
+
+      const sinceFlag = stringFlag(flags, "since");
+      const since = sinceFlag !== undefined ? new Date(sinceFlag) : undefined;
+      if (since && isNaN(since.getTime())) usageError(`--since must be a date, got: ${sinceFlag}`);
+
+      const defaults = jobsConfig.params.forceSync;
+      const task = new ForceSyncCron(
+        {
+          ...defaults,
+          since: since ?? defaults.since,
+          batchSize: positiveNumberFlag(flags, "batch", true) ?? defaults.batchSize,
+          messagesPerSecond: positiveNumberFlag(flags, "rate", false) ?? defaults.messagesPerSecond,
+          city: stringFlag(flags, "city") ?? defaults.city,
+          player: stringFlag(flags, "player") ?? defaults.player,
+          missingIpfsOnly: flags.has("missing-ipfs") || defaults.missingIpfsOnly,
+          restart: flags.has("restart"),
+          dryRun,
+        },
+        jobsConfig.jobs["force-sync"].schedule,
+      );
+      return await runTask(task);
+    }
+
+    case "quarantine":
+      return await runQuarantine(rest, flags, dryRun);
+
+    case "malformed": {
+      if (rest.length > 0) usageError(`Unexpected arguments: ${rest.join(" ")}`);
+
+      const items = await new MalformedFlashStore().list();
+      console.log(`Malformed API items: ${items.length}\n`);
+      for (const item of items.slice(0, positiveNumberFlag(flags, "limit", true) ?? 50)) {
+        console.log(
+          `${item.flashId ?? item.key.slice(0, 12)}  ${item.collection}  seen ${item.seenCount} time(s), last ${item.lastSeenAt}\n` +
+            item.diagnostics.map((d) => `  ${d.path} ${d.code}, expected ${d.expected}, got ${d.received}`).join("\n") +
+            `\n  ${JSON.stringify(item.item)}`,
+        );
+      }
+      return EXIT_OK;
+    }
+
+    default:
+      usageError(`Unknown command: ${command}`);
+  }
+}
+
+async function runQuarantine(args: string[], flags: Map<string, string | true>, dryRun: boolean): Promise<number> {
+  const [action, ...ids] = args;
+  const reason = reasonFlag(flags);
+  const db = new QuarantineDb();
+
+  switch (action) {
+    case "list": {
+      if (ids.length > 0) usageError(`Unexpected arguments: ${ids.join(" ")}`);
+
+      const counts = await db.countByReason();
+      console.log(`Quarantined: ${QUARANTINE_REASONS.map((r) => `${r} ${counts[r]}`).join(", ")}\n`);
+      const entries = await db.list({ reason, limit: positiveNumberFlag(flags, "limit", true) ?? 50 });
+      for (const entry of entries) console.log(describeQuarantineEntry(entry));
+      return EXIT_OK;
+    }
+
+    case "inspect": {
+      if (ids.length !== 1) usageError("quarantine inspect needs one flash id");
+      const flashId = parseFlashId(ids[0]);
+
+      const entry = await db.get(flashId);
+      if (!entry) {
+        console.error(`❌ Flash ${flashId} is not quarantined`);
+        return EXIT_FAILED;
+      }
+      const [stored] = await new PostgresFlashesDb().getByIds([flashId]);
+      const processing = await new FlashProcessingDb().get(flashId);
+      console.log(JSON.stringify({ ...entry, stored_flash: stored ?? null, processing }, null, 2));
+      return EXIT_OK;
+    }
+
+    case "requeue":
+    case "discard": {
+      let flashIds: number[];
+      if (flags.has("all")) {
+        if (ids.length > 0) usageError("Pass flash ids or --all, not both");
+        flashIds = (await db.list({ reason })).map((entry) => entry.flash_id);
+      } else {
+        if (ids.length === 0) usageError(`quarantine ${action} needs flash ids or --all`);
+        flashIds = ids.map(parseFlashId);
+      }
+
+      if (flashIds.length === 0) {
+        console.log(`⏭️  No quarantined flashes to ${action}`);
+        return EXIT_SKIPPED;
+      }
+      if (dryRun) {
+        console.log(`[dry-run] Would ${action} ${flashIds.length} flashes: ${flashIds.join(", ")}`);
+        return EXIT_OK;
+      }
+
+      if (action === "discard") {
+        const discarded = await flashQuarantine.discard(flashIds);
+        const discardedIds = new Set(discarded.map((entry) => entry.flash_id));
+        const missing = flashIds.filter((flashId) => !discardedIds.has(flashId));
+        console.log(`✅ Discarded ${discarded.length} flashes`);
+        if (missing.length > 0) console.error(`❌ Not quarantined: ${missing.join(", ")}`);
+        return missing.length > 0 ? EXIT_FAILED : EXIT_OK;
+      }
+
+      const result = await flashQuarantine.requeue(flashIds);
+      console.log(`✅ Requeued ${result.requeued.length} flashes, the running bot's outbox relay publishes them`);
+      if (result.notFound.length > 0) console.error(`❌ Not quarantined or nothing to requeue from: ${result.notFound.join(", ")}`);
+      if (result.invalid.length > 0) console.error(`❌ Failed validation, still quarantined: ${result.invalid.join(", ")}`);
+      return result.notFound.length > 0 || result.invalid.length > 0 ? EXIT_FAILED : EXIT_OK;
+    }
+
+    default:
+      usageError(action ? `Unknown quarantine command: ${action}` : "quarantine needs a command: list, inspect, requeue or discard");
+  }
+}
+
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error("❌ Command failed:", error);
+      return EXIT_FAILED;
+    })
+    .then(async (code) => {
+      await RabbitMQBase.closeAll();
+      await pool.end();
+      process.exit(code);
+    });
+}
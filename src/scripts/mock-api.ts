@@ -0,0 +1,21 @@
+import { config } from "dotenv";
+import { MockSpaceInvadersServer, mockApiOptionsFromEnv } from "../util/mock-api";
+
+config({ path: ".env" });
+
+// Run with: yarn mock-api
+// Then point the bot at it: API_URL=http://localhost:4010 API_MODE=mock yarn dev
+const server = new MockSpaceInvadersServer(mockApiOptionsFromEnv());
+
+server.start().catch((error) => {
+  console.error("❌ Mock API failed to start:", error);
+  process.exit(1);
+});
+
+const shutdown = () => {
+  console.log("\nStopping mock API...", server.getStats());
+  server.stop().then(() => process.exit(0));
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
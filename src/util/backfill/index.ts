@@ -0,0 +1,209 @@
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { Flash, FlashBackfillFilter } from "../database/invader-flashes/types";
+import { ProducerStateDb } from "../database/producer-state";
+import { FlashPublishOptions, RabbitImagePush } from "../rabbitmq";
+import { lifecycle } from "../lifecycle";
+import { flashProcessing } from "../flash-processing";
+import { backfillFlashesTotal, backfillRemainingFlashes, backfillCursorFlashId } from "../metrics";
+
+export interface BackfillOptions {
+  // Checkpoint key (backfill:<name>) and metrics label
+  name: string;
+  filter: FlashBackfillFilter;
+  // Without filter.since, only flashes from the last lookbackHours. The window moves with
+  // every run and isn't part of the checkpoint's filter, so a scheduled backfill resumes.
+  lookbackHours?: number;
+  pageSize: number;
+  messagesPerSecond: number;
+  // Ignore a saved checkpoint and start from the beginning
+  restart?: boolean;
+  // Count what would be published, publish nothing
+  dryRun?: boolean;
+}
+
+export interface BackfillCheckpoint {
+  // Serialized filter; a checkpoint is only resumed by a backfill with the same filter
+  filter: string;
+  lastFlashId: number;
+  published: number;
+  startedAt: string;
+  updatedAt: string;
+  // Set once the backfill ran out of flashes; a later run only picks up flashes added since
+  completedAt?: string;
+}
+
+export interface BackfillResult {
+  resumed: boolean;
+  // Matching flashes left when this run started
+  total: number;
+  published: number;
+  remaining: number;
+  lastFlashId: number;
+  completed: boolean;
+  stoppedReason?: "shutdown" | "publish_failed";
+  error?: string;
+}
+
+interface FlashPublisher {
+  publish(flash: Flash, options: FlashPublishOptions): Promise<unknown>;
+}
+
+/**
+ * Republishes flashes to the image processor, paging through `flashes` by
+ * flash_id. The position is checkpointed in producer_state after every page,
+ * so a crashed or interrupted backfill resumes where it stopped, and a
+ * finished one only publishes flashes added since. A failed publish stops
+ * the run before the checkpoint passes that flash.
+ */
+export class FlashBackfill {
+  private options: BackfillOptions;
+  private flashesDb: PostgresFlashesDb;
+  private stateDb: ProducerStateDb;
+  private publisher: FlashPublisher | null;
+
+  constructor(options: BackfillOptions, flashesDb?: PostgresFlashesDb, stateDb?: ProducerStateDb, publisher?: FlashPublisher) {
+    this.options = options;
+    this.flashesDb = flashesDb ?? new PostgresFlashesDb();
+    this.stateDb = stateDb ?? new ProducerStateDb();
+    this.publisher = publisher ?? null;
+  }
+
+  private get key(): string {
+    return `backfill:${this.options.name}`;
+  }
+
+  public async getCheckpoint(): Promise<BackfillCheckpoint | null> {
+    return await this.stateDb.get<BackfillCheckpoint>(this.key);
+  }
+
+  public async run(): Promise<BackfillResult> {
+    const { name, pageSize, dryRun, lookbackHours } = this.options;
+    const filterKey = serializeFilter(this.options.filter, lookbackHours);
+    const filter =
+      lookbackHours && !this.options.filter.since
+        ? { ...this.options.filter, since: new Date(Date.now() - lookbackHours * 60 * 60 * 1000) }
+        : this.options.filter;
+
+    let checkpoint = this.options.restart ? null : await this.getCheckpoint();
+    if (checkpoint && checkpoint.filter !== filterKey) {
+      console.log(`[FlashBackfill] ${name}: saved checkpoint is for ${checkpoint.filter}, starting over`);
+      checkpoint = null;
+    }
+
+    const result: BackfillResult = {
+      resumed: checkpoint !== null,
+      total: 0,
+      published: 0,
+      remaining: 0,
+      lastFlashId: checkpoint?.lastFlashId ?? 0,
+      completed: false,
+    };
+
+    result.total = await this.flashesDb.countBackfill(filter, result.lastFlashId);
+    result.remaining = result.total;
+    console.log(
+      `[FlashBackfill] ${name}: ${result.total} flashes to publish for ${filterKey}` +
+        (checkpoint
+          ? `, ${checkpoint.completedAt ? "continuing" : "resuming"} after flash ${checkpoint.lastFlashId} (${checkpoint.published} published since ${checkpoint.startedAt})`
+          : ""),
+    );
+
+    if (dryRun) {
+      console.log(`[FlashBackfill] [dry-run] ${name}: would publish ${result.total} flashes in pages of ${pageSize}`);
+      return result;
+    }
+
+    const publisher = this.publisher ?? (this.publisher = new RabbitImagePush());
+    const intervalMs = 1000 / this.options.messagesPerSecond;
+    const startedAt = checkpoint?.startedAt ?? new Date().toISOString();
+    // Same for every run of one backfill, resumed or not
+    const correlationId = `backfill:${name}:${startedAt}`;
+    let publishedTotal = checkpoint?.published ?? 0;
+    let nextSendAt = 0;
+
+    backfillRemainingFlashes.set({ job: name }, result.remaining);
+    backfillCursorFlashId.set({ job: name }, result.lastFlashId);
+
+    while (true) {
+      if (lifecycle.isShuttingDown()) {
+        console.log(`[FlashBackfill] ${name}: shutting down, stopping after flash ${result.lastFlashId}`);
+        result.stoppedReason = "shutdown";
+        return result;
+      }
+
+      const page = await this.flashesDb.getBackfillPage(filter, result.lastFlashId, pageSize);
+      if (page.length === 0) break;
+      const pagePublished: number[] = [];
+
+      for (const flash of page) {
+        const wait = nextSendAt - Date.now();
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+        nextSendAt = Math.max(nextSendAt, Date.now()) + intervalMs;
+
+        try {
+          // Low priority, so a backfill never delays flashes of Flashcastr users
+          await publisher.publish(flash, { correlationId, priority: "low" });
+        } catch (error) {
+          backfillFlashesTotal.inc({ job: name, result: "failed" });
+          console.error(`[FlashBackfill] ${name}: failed to publish flash ${flash.flash_id}, stopping:`, error);
+          result.stoppedReason = "publish_failed";
+          result.error = `Failed to publish flash ${flash.flash_id}: ${(error as Error).message}`;
+
+          // Keep what this page already published
+          await flashProcessing.recordPublished(pagePublished);
+          try {
+            await this.saveCheckpoint(filterKey, result.lastFlashId, publishedTotal, startedAt);
+          } catch (saveError) {
+            console.error(`[FlashBackfill] ${name}: failed to save checkpoint at flash ${result.lastFlashId}:`, saveError);
+          }
+          return result;
+        }
+
+        backfillFlashesTotal.inc({ job: name, result: "published" });
+        result.published++;
+        publishedTotal++;
+        result.remaining = Math.max(result.remaining - 1, 0);
+        result.lastFlashId = Number(flash.flash_id);
+        pagePublished.push(result.lastFlashId);
+      }
+
+      await flashProcessing.recordPublished(pagePublished);
+      await this.saveCheckpoint(filterKey, result.lastFlashId, publishedTotal, startedAt);
+      backfillRemainingFlashes.set({ job: name }, result.remaining);
+      console.log(`[FlashBackfill] ${name}: published ${result.published}/${result.total}, checkpoint at flash ${result.lastFlashId}`);
+    }
+
+    await this.saveCheckpoint(filterKey, result.lastFlashId, publishedTotal, startedAt, new Date().toISOString());
+    backfillRemainingFlashes.set({ job: name }, 0);
+    result.completed = true;
+    result.remaining = 0;
+    console.log(`[FlashBackfill] ${name}: complete, ${result.published} flashes published this run (${publishedTotal} in total)`);
+    return result;
+  }
+
+  private async saveCheckpoint(filter: string, lastFlashId: number, published: number, startedAt: string, completedAt?: string): Promise<void> {
+    await this.stateDb.set<BackfillCheckpoint>(this.key, {
+      filter,
+      lastFlashId,
+      published,
+      startedAt,
+      updatedAt: new Date().toISOString(),
+      completedAt,
+    });
+    backfillCursorFlashId.set({ job: this.options.name }, lastFlashId);
+  }
+}
+
+/**
+ * Stable representation of a filter, e.g. "since=2026-10-01T00:00:00.000Z city=Paris missing_ipfs"
+ * or "lookback=24h player=invader" (a fixed since wins over the lookback)
+ */
+export function serializeFilter(filter: FlashBackfillFilter, lookbackHours?: number): string {
+  const parts: string[] = [];
+  if (filter.since) parts.push(`since=${filter.since.toISOString()}`);
+  else if (lookbackHours) parts.push(`lookback=${lookbackHours}h`);
+  if (filter.city) parts.push(`city=${filter.city}`);
+  if (filter.player) parts.push(`player=${filter.player.toLowerCase()}`);
+  if (filter.missingIpfsOnly) parts.push("missing_ipfs");
+  return parts.length ? parts.join(" ") : "all flashes";
+}
@@ -0,0 +1,28 @@
+import { serializeFilter } from ".";
+
+jest.mock("../database/invader-flashes", () => ({ PostgresFlashesDb: jest.fn() }));
+jest.mock("../database/producer-state", () => ({ ProducerStateDb: jest.fn() }));
+jest.mock("../rabbitmq", () => ({ RabbitImagePush: jest.fn() }));
+jest.mock("../flash-processing", () => ({ flashProcessing: {} }));
+jest.mock("../lifecycle", () => ({ lifecycle: {} }));
+jest.mock("../metrics", () => ({}));
+
+describe("serializeFilter", () => {
+  it("lists the filters in a fixed order", () => {
+    expect(
+      serializeFilter({ missingIpfsOnly: true, player: "Invader", city: "Paris", since: new Date("2026-10-01T00:00:00Z") }),
+    ).toBe("since=2026-10-01T00:00:00.000Z city=Paris player=invader missing_ipfs");
+  });
+
+  it("keys a lookback window on its length, not on the date it resolves to", () => {
+    expect(serializeFilter({ city: "Paris" }, 24)).toBe("lookback=24h city=Paris");
+  });
+
+  it("prefers a fixed since over the lookback", () => {
+    expect(serializeFilter({ since: new Date("2026-10-01T00:00:00Z") }, 24)).toBe("since=2026-10-01T00:00:00.000Z");
+  });
+
+  it("describes an empty filter", () => {
+    expect(serializeFilter({})).toBe("all flashes");
+  });
+});
@@ -0,0 +1,134 @@
+import { ProducerStateDb } from "../database/producer-state";
+import { CircuitBreaker, apiCircuitBreakerOptionsFromEnv } from ".";
+
+jest.mock("../database/producer-state", () => ({ ProducerStateDb: jest.fn() }));
+jest.mock("../metrics", () => ({ circuitBreakerState: { set: jest.fn() } }));
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const OPTIONS = { name: "test_api", failureThreshold: 3, openDurationMs: 60_000 };
+
+// In-memory producer_state
+function stateDb(initial: Record<string, unknown> = {}) {
+  const values = new Map(Object.entries(initial));
+  return {
+    values,
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      values.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+  };
+}
+
+function breaker(db = stateDb()): CircuitBreaker {
+  return new CircuitBreaker(OPTIONS, db as unknown as ProducerStateDb);
+}
+
+describe("CircuitBreaker", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = NOW;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("opens after the failure threshold and blocks calls until the open duration passed", async () => {
+    const circuit = breaker();
+
+    await circuit.recordFailure("timeout");
+    await circuit.recordFailure("timeout");
+    expect(await circuit.tryAcquire()).toBe(true);
+
+    await circuit.recordFailure("timeout");
+    expect(circuit.getSnapshot()).toMatchObject({ state: "open", consecutiveFailures: 3, openedAt: NOW, nextAttemptAt: NOW + 60_000 });
+    expect(await circuit.isOpen()).toBe(true);
+    expect(await circuit.tryAcquire()).toBe(false);
+
+    now += 60_000;
+    expect(await circuit.isOpen()).toBe(false);
+  });
+
+  it("starts counting again after a success", async () => {
+    const circuit = breaker();
+
+    await circuit.recordFailure("timeout");
+    await circuit.recordFailure("timeout");
+    await circuit.recordSuccess();
+    await circuit.recordFailure("timeout");
+
+    expect(circuit.getSnapshot()).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+  });
+
+  it("lets a single probe through once half-open and closes when it succeeds", async () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) await circuit.recordFailure("timeout");
+    now += 60_000;
+
+    expect(await circuit.tryAcquire()).toBe(true);
+    expect(circuit.getSnapshot().state).toBe("half_open");
+    expect(await circuit.tryAcquire()).toBe(false);
+
+    await circuit.recordSuccess();
+    expect(circuit.getSnapshot()).toMatchObject({ state: "closed", consecutiveFailures: 0, openedAt: null, nextAttemptAt: null });
+    expect(await circuit.tryAcquire()).toBe(true);
+  });
+
+  it("reopens when the probe fails", async () => {
+    const circuit = breaker();
+    for (let i = 0; i < 3; i++) await circuit.recordFailure("timeout");
+    now += 60_000;
+    await circuit.tryAcquire();
+
+    now += 1000;
+    await circuit.recordFailure("503");
+
+    expect(circuit.getSnapshot()).toMatchObject({ state: "open", nextAttemptAt: now + 60_000, lastError: "503" });
+    expect(await circuit.tryAcquire()).toBe(false);
+  });
+
+  it("restores the persisted circuit and probes again after a restart mid-probe", async () => {
+    const db = stateDb();
+    const circuit = breaker(db);
+    for (let i = 0; i < 3; i++) await circuit.recordFailure("timeout");
+    now += 60_000;
+    await circuit.tryAcquire();
+    expect(db.values.get("circuit_breaker:test_api")).toMatchObject({ state: "half_open" });
+
+    const restarted = breaker(db);
+
+    expect(await restarted.tryAcquire()).toBe(true);
+    expect(restarted.getSnapshot()).toMatchObject({ state: "half_open", consecutiveFailures: 3 });
+  });
+
+  it("keeps working in memory when the state can't be persisted or restored", async () => {
+    const db = stateDb();
+    db.get.mockRejectedValue(new Error("connection refused"));
+    db.set.mockRejectedValue(new Error("connection refused"));
+    const circuit = breaker(db);
+
+    for (let i = 0; i < 3; i++) await circuit.recordFailure("timeout");
+
+    expect(await circuit.tryAcquire()).toBe(false);
+  });
+});
+
+describe("apiCircuitBreakerOptionsFromEnv", () => {
+  it("defaults the threshold and open duration", () => {
+    expect(apiCircuitBreakerOptionsFromEnv({})).toEqual({ name: "space_invaders_api", failureThreshold: 3, openDurationMs: 900000 });
+  });
+
+  it.each([
+    ["API_CIRCUIT_FAILURE_THRESHOLD", "three"],
+    ["API_CIRCUIT_FAILURE_THRESHOLD", "0"],
+    ["API_CIRCUIT_OPEN_MS", "15m"],
+    ["API_CIRCUIT_OPEN_MS", "-1"],
+  ])("rejects %s=%s", (key, value) => {
+    expect(() => apiCircuitBreakerOptionsFromEnv({ [key]: value })).toThrow(`${key} must be an integer >= 1, got: ${value}`);
+  });
+});
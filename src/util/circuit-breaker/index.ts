@@ -0,0 +1,194 @@
+import { ProducerStateDb } from "../database/producer-state";
+import { parseIntegerEnv } from "../config/env";
+import { circuitBreakerState } from "../metrics";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+// Gauge values for invaders_bot_circuit_breaker_state
+const STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2,
+};
+
+export interface CircuitBreakerOptions {
+  name: string;
+  // Consecutive failures before the circuit opens
+  failureThreshold: number;
+  // How long the circuit stays open before a half-open probe is allowed
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  nextAttemptAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+type PersistedCircuit = Omit<CircuitBreakerSnapshot, "name">;
+
+/**
+ * Closed/open/half-open circuit breaker whose state is persisted in producer_state,
+ * so a restart doesn't hammer an upstream that was known to be down.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private stateDb: ProducerStateDb;
+  private restored: Promise<void> | null = null;
+  private probeInFlight: boolean = false;
+  private circuit: PersistedCircuit = {
+    state: "closed",
+    consecutiveFailures: 0,
+    openedAt: null,
+    nextAttemptAt: null,
+    lastFailureAt: null,
+    lastError: null,
+  };
+
+  constructor(options: CircuitBreakerOptions, stateDb?: ProducerStateDb) {
+    this.options = options;
+    this.stateDb = stateDb ?? new ProducerStateDb();
+    circuitBreakerState.set({ name: options.name }, STATE_VALUES.closed);
+  }
+
+  private get stateKey(): string {
+    return `circuit_breaker:${this.options.name}`;
+  }
+
+  /**
+   * Load persisted state once per process
+   */
+  public restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.stateDb
+        .get<PersistedCircuit>(this.stateKey)
+        .then((persisted) => {
+          if (!persisted) return;
+
+          this.circuit = persisted;
+          // A probe that was in flight when we stopped never reported back: probe again
+          if (this.circuit.state === "half_open") {
+            this.circuit.state = "open";
+          }
+          this.updateGauge();
+          console.log(`[CircuitBreaker] Restored ${this.options.name} circuit: ${this.circuit.state}`);
+        })
+        .catch((error) => {
+          console.error(`[CircuitBreaker] Failed to restore ${this.options.name} circuit state:`, error);
+        });
+    }
+    return this.restored;
+  }
+
+  /**
+   * True while the circuit is open and the cooldown has not elapsed. Does not change state.
+   */
+  public async isOpen(): Promise<boolean> {
+    await this.restore();
+    return this.circuit.state === "open" && (this.circuit.nextAttemptAt ?? 0) > Date.now();
+  }
+
+  /**
+   * Ask permission for a call. Moves an expired open circuit to half-open,
+   * where exactly one probe call is let through.
+   */
+  public async tryAcquire(): Promise<boolean> {
+    await this.restore();
+
+    if (this.circuit.state === "closed") return true;
+
+    if (this.circuit.state === "open") {
+      if ((this.circuit.nextAttemptAt ?? 0) > Date.now()) return false;
+      await this.transition("half_open");
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  public async recordSuccess(): Promise<void> {
+    this.probeInFlight = false;
+    const wasClosed = this.circuit.state === "closed" && this.circuit.consecutiveFailures === 0;
+
+    this.circuit.consecutiveFailures = 0;
+    if (this.circuit.state !== "closed") {
+      this.circuit.openedAt = null;
+      this.circuit.nextAttemptAt = null;
+      await this.transition("closed");
+    } else if (!wasClosed) {
+      await this.persist();
+    }
+  }
+
+  public async recordFailure(reason: string): Promise<void> {
+    const now = Date.now();
+    const wasProbe = this.circuit.state === "half_open";
+
+    this.probeInFlight = false;
+    this.circuit.consecutiveFailures++;
+    this.circuit.lastFailureAt = now;
+    this.circuit.lastError = reason;
+
+    if (wasProbe || this.circuit.consecutiveFailures >= this.options.failureThreshold) {
+      this.circuit.openedAt = now;
+      this.circuit.nextAttemptAt = now + this.options.openDurationMs;
+      await this.transition("open");
+      return;
+    }
+
+    await this.persist();
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return { name: this.options.name, ...this.circuit };
+  }
+
+  private async transition(state: CircuitState): Promise<void> {
+    const previous = this.circuit.state;
+    this.circuit.state = state;
+    this.updateGauge();
+
+    if (state === "open") {
+      console.warn(
+        `[CircuitBreaker] ${this.options.name} circuit ${previous} → open after ${this.circuit.consecutiveFailures} consecutive failures (${this.circuit.lastError}); next attempt at ${new Date(this.circuit.nextAttemptAt!).toISOString()}`,
+      );
+    } else {
+      console.log(`[CircuitBreaker] ${this.options.name} circuit ${previous} → ${state}`);
+    }
+
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.stateDb.set(this.stateKey, this.circuit);
+    } catch (error) {
+      // Keep working with in-memory state; persistence is only for restarts
+      console.error(`[CircuitBreaker] Failed to persist ${this.options.name} circuit state:`, error);
+    }
+  }
+
+  private updateGauge(): void {
+    circuitBreakerState.set({ name: this.options.name }, STATE_VALUES[this.circuit.state]);
+  }
+}
+
+/**
+ * Options of the Space Invaders API circuit. A NaN threshold would never open the circuit,
+ * so anything but a positive integer throws.
+ */
+export function apiCircuitBreakerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CircuitBreakerOptions {
+  return {
+    name: "space_invaders_api",
+    failureThreshold: parseIntegerEnv(env, "API_CIRCUIT_FAILURE_THRESHOLD", 3, 1),
+    openDurationMs: parseIntegerEnv(env, "API_CIRCUIT_OPEN_MS", 900000, 1),
+  };
+}
+
+// Shared by every SpaceInvadersAPI instance, so each cron run sees the same circuit
+export const spaceInvadersCircuitBreaker = new CircuitBreaker(apiCircuitBreakerOptionsFromEnv());
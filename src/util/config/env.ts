@@ -0,0 +1,15 @@
+/**
+ * Read an integer setting, falling back to `defaultValue` when it is unset.
+ * parseInt would turn a typo into NaN, and comparisons against NaN are always false
+ * (`failures >= NaN` never cools a proxy down), so anything but an integer >= min throws.
+ */
+export function parseIntegerEnv(env: NodeJS.ProcessEnv, key: string, defaultValue: number, min: number): number {
+  const value = env[key];
+  if (!value) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${key} must be an integer >= ${min}, got: ${value}`);
+  }
+  return parsed;
+}
@@ -1,4 +1,8 @@
 import { config as dotenvConfig } from 'dotenv';
+import { ProxyPoolConfig, proxyPoolConfigFromEnv } from '../proxy-pool';
+import { SchedulingPolicyConfig, isValidTimezone, schedulingPolicyConfigFromEnv } from '../scheduling';
+import { JobsConfig, jobsConfigFromEnv, validateJobsConfig } from '../cron-jobs/config';
+import { CircuitBreakerOptions, apiCircuitBreakerOptionsFromEnv } from '../circuit-breaker';
 
 // Load environment variables
 dotenvConfig({ path: '.env' });
@@ -28,14 +32,20 @@ export interface AppConfig {
   // API configuration
   api: {
     spaceInvadersUrl: string;
+    mode: 'live' | 'mock';
     timeout: number;
+    // Circuit breaker around the API (see CircuitBreaker)
+    circuitBreaker: CircuitBreakerOptions;
   };
 
-  // Proxy configuration
-  proxy: {
-    list: string[];
-    fallbackList: string[];
-  };
+  // Proxy configuration (see ProxyPool)
+  proxy: ProxyPoolConfig;
+
+  // Peak-hour scheduling policy (see SchedulingPolicy)
+  scheduling: SchedulingPolicyConfig;
+
+  // Scheduled jobs: preset, per-job enabled/schedule and parameters (see JobRegistry)
+  jobs: JobsConfig;
 
   // Cron configuration
   cron: {
@@ -118,13 +128,17 @@ class ConfigManager {
 
       api: {
         spaceInvadersUrl: this.getEnv('API_URL', 'https://api.space-invaders.com'),
-        timeout: this.getNumericEnv('API_TIMEOUT', 15000)
+        mode: this.getEnv('API_MODE', 'live') as 'live' | 'mock',
+        timeout: this.getNumericEnv('API_TIMEOUT', 15000),
+        circuitBreaker: apiCircuitBreakerOptionsFromEnv(process.env)
       },
 
-      proxy: {
-        list: this.parseProxyList(this.getEnv('PROXY_LIST', '')),
-        fallbackList: this.parseProxyList(this.getEnv('FALLBACK_PROXY_LIST', ''))
-      },
+      // Validated while parsing (see proxyPoolConfigFromEnv)
+      proxy: proxyPoolConfigFromEnv(process.env),
+
+      scheduling: schedulingPolicyConfigFromEnv(process.env),
+
+      jobs: jobsConfigFromEnv(process.env),
 
       cron: {
         schedule: this.getEnv('CRON_SCHEDULE', '*/5 * * * *'),
@@ -201,6 +215,19 @@ class ConfigManager {
       throw new Error('Invalid API_URL format');
     }
 
+    if (!['live', 'mock'].includes(config.api.mode)) {
+      throw new Error('API_MODE must be one of: live, mock');
+    }
+
+    const { failureThreshold, openDurationMs } = config.api.circuitBreaker;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      throw new Error('API_CIRCUIT_FAILURE_THRESHOLD must be an integer >= 1');
+    }
+
+    if (!Number.isInteger(openDurationMs) || openDurationMs < 1) {
+      throw new Error('API_CIRCUIT_OPEN_MS must be an integer >= 1');
+    }
+
     // Validate numeric ranges
     if (config.database.pool.max <= 0 || config.database.pool.max > 100) {
       throw new Error('DB_POOL_MAX must be between 1 and 100');
@@ -210,6 +237,18 @@ class ConfigManager {
       throw new Error('DB_POOL_MIN must be >= 0 and < DB_POOL_MAX');
     }
 
+    if (!isValidTimezone(config.scheduling.timezone)) {
+      throw new Error('SCHEDULE_TIMEZONE must be a valid IANA timezone (e.g. Europe/Paris)');
+    }
+
+    // NaN would pass a bare `< 1` check and stop off-peak ticks from ever running
+    const cadences = [config.scheduling.offPeakRunEvery, config.scheduling.adaptive.lookbackDays, config.scheduling.adaptive.maxRunEvery];
+    if (cadences.some((x) => !Number.isInteger(x) || x < 1)) {
+      throw new Error('SCHEDULE_OFF_PEAK_RUN_EVERY, SCHEDULE_ADAPTIVE_LOOKBACK_DAYS and SCHEDULE_ADAPTIVE_MAX_RUN_EVERY must be integers >= 1');
+    }
+
+    validateJobsConfig(config.jobs);
+
     if (config.performance.batchSize <= 0 || config.performance.batchSize > 10000) {
       throw new Error('MEMORY_BATCH_SIZE must be between 1 and 10000');
     }
@@ -283,18 +322,6 @@ class ConfigManager {
     throw new Error(`Environment variable ${key} must be a boolean value, got: ${value}`);
   }
 
-  /**
-   * Parse proxy list from environment variable
-   */
-  private parseProxyList(proxyListStr: string): string[] {
-    if (!proxyListStr.trim()) return [];
-
-    return proxyListStr
-      .split(',')
-      .map(proxy => proxy.trim())
-      .filter(proxy => proxy.length > 0);
-  }
-
   /**
    * Get configuration as JSON (useful for debugging)
    */
@@ -305,6 +332,13 @@ class ConfigManager {
     config.database.url = this.redactUrl(config.database.url);
     config.rabbitmq.url = this.redactUrl(config.rabbitmq.url);
     config.security.signerEncryptionKey = '***REDACTED***';
+    config.proxy = {
+      ...config.proxy,
+      proxies: config.proxy.proxies.map(proxy => ({
+        ...proxy,
+        auth: proxy.auth ? { username: '***', password: '***' } : undefined
+      }))
+    };
     
     return config;
   }
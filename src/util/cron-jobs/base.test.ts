@@ -0,0 +1,211 @@
+import { withAdvisoryLock } from "../database/advisory-lock";
+import { JobRunReport } from "../job-runs";
+import { cronRunsSkippedTotal } from "../metrics";
+import { CronTask, CronTaskOptions } from "./base";
+
+jest.mock("node-cron", () => ({
+  schedule: jest.fn(() => ({ start: jest.fn(), stop: jest.fn() })),
+  validate: jest.fn(() => true),
+}));
+jest.mock("../database/postgresClient", () => ({ __esModule: true, default: {} }));
+jest.mock("../database/advisory-lock", () => ({ withAdvisoryLock: jest.fn() }));
+jest.mock("../metrics", () => ({ cronRunsSkippedTotal: { inc: jest.fn() } }));
+jest.mock("../job-runs", () => ({ JobRunRecorder: jest.fn() }));
+
+const lock = withAdvisoryLock as jest.Mock;
+const skipped = cronRunsSkippedTotal.inc as jest.Mock;
+
+/**
+ * Each task() call blocks until release() is called
+ */
+class GatedTask extends CronTask {
+  public calls = 0;
+  private gates: Array<(report: JobRunReport) => void> = [];
+
+  constructor(options: CronTaskOptions = {}) {
+    super("gated", "* * * * *", { recordRuns: false, ...options });
+  }
+
+  public task(): Promise<JobRunReport> {
+    this.calls++;
+    return new Promise((resolve) => this.gates.push(resolve));
+  }
+
+  public release(report: JobRunReport = {}): void {
+    this.gates.shift()!(report);
+  }
+}
+
+// Lets queued continuations run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("CronTask overlap policy", () => {
+  it("skips a tick while the previous run is in progress", async () => {
+    const task = new GatedTask({ overlapPolicy: "skip" });
+
+    const first = task.run();
+    await flush();
+    await expect(task.run()).resolves.toBe(false);
+    expect(skipped).toHaveBeenCalledWith({ task: "gated", reason: "overlap" });
+
+    task.release({ counts: { fetched: 1 } });
+    await expect(first).resolves.toBe(true);
+    expect(task.calls).toBe(1);
+    expect(task.getLastReport()).toEqual({ counts: { fetched: 1 } });
+  });
+
+  it("queues one tick and runs it once the previous run finishes", async () => {
+    const task = new GatedTask({ overlapPolicy: "queue" });
+
+    const first = task.run();
+    await flush();
+    const second = task.run();
+    // Only one run waits, further ticks are dropped
+    await expect(task.run()).resolves.toBe(false);
+    expect(skipped).toHaveBeenCalledTimes(1);
+
+    task.release();
+    await expect(first).resolves.toBe(true);
+    await flush();
+    expect(task.calls).toBe(2);
+
+    task.release({ counts: { fetched: 2 } });
+    await expect(second).resolves.toBe(true);
+    expect(task.getLastReport()).toEqual({ counts: { fetched: 2 } });
+  });
+
+  it("runs the queued tick even if the previous run threw", async () => {
+    class FlakyTask extends CronTask {
+      public calls = 0;
+      public async task(): Promise<void> {
+        if (++this.calls === 1) {
+          await flush();
+          throw new Error("boom");
+        }
+      }
+    }
+    const task = new FlakyTask("flaky", "* * * * *", { overlapPolicy: "queue", recordRuns: false });
+
+    const first = task.run();
+    const second = task.run();
+
+    await expect(first).rejects.toThrow("boom");
+    await expect(second).resolves.toBe(true);
+    expect(task.calls).toBe(2);
+  });
+
+  it("defaults to CRON_OVERLAP_POLICY", async () => {
+    process.env.CRON_OVERLAP_POLICY = "queue";
+    try {
+      const task = new GatedTask();
+      task.run();
+      await flush();
+      const second = task.run();
+      task.release();
+      await flush();
+      task.release();
+      await expect(second).resolves.toBe(true);
+    } finally {
+      delete process.env.CRON_OVERLAP_POLICY;
+    }
+  });
+});
+
+describe("CronTask advisory lock", () => {
+  class LockedTask extends CronTask {
+    public task = jest.fn(async (): Promise<JobRunReport> => ({ counts: { fetched: 3 } }));
+  }
+
+  it("runs the task under a lock named after it", async () => {
+    lock.mockImplementation(async (_pool, _key, fn) => ({ acquired: true, result: await fn() }));
+    const task = new LockedTask("locked", "* * * * *", { advisoryLock: true, recordRuns: false });
+
+    await expect(task.run()).resolves.toBe(true);
+    expect(lock).toHaveBeenCalledWith(expect.anything(), "invaders-bot:cron:locked", expect.any(Function));
+    expect(task.task).toHaveBeenCalledTimes(1);
+    expect(task.getLastReport()).toEqual({ counts: { fetched: 3 } });
+  });
+
+  it("skips the run when another instance holds the lock", async () => {
+    lock.mockResolvedValue({ acquired: false });
+    const task = new LockedTask("locked", "* * * * *", { advisoryLock: true, recordRuns: false });
+
+    await expect(task.run()).resolves.toBe(false);
+    expect(task.task).not.toHaveBeenCalled();
+    expect(task.getLastReport()).toBeNull();
+    expect(skipped).toHaveBeenCalledWith({ task: "locked", reason: "locked" });
+  });
+
+  it("doesn't take the lock unless asked to", async () => {
+    const task = new LockedTask("unlocked", "* * * * *", { advisoryLock: false, recordRuns: false });
+
+    await expect(task.run()).resolves.toBe(true);
+    expect(lock).not.toHaveBeenCalled();
+  });
+});
+
+describe("CronTask shutdown", () => {
+  it("doesn't run once stopped", async () => {
+    const task = new GatedTask();
+
+    task.stop();
+
+    await expect(task.run()).resolves.toBe(false);
+    expect(task.calls).toBe(0);
+  });
+
+  it("lets the active run finish after stop()", async () => {
+    const task = new GatedTask();
+
+    const run = task.run();
+    await flush();
+    task.stop();
+    task.release();
+
+    await expect(run).resolves.toBe(true);
+  });
+
+  it("waitForIdle resolves once the active and queued runs are done", async () => {
+    const task = new GatedTask({ overlapPolicy: "queue" });
+    let idle = false;
+
+    task.run();
+    await flush();
+    task.run();
+    const waiting = task.waitForIdle().then(() => (idle = true));
+
+    task.release();
+    await flush();
+    expect(task.calls).toBe(2);
+    expect(idle).toBe(false);
+
+    task.release();
+    await waiting;
+    expect(idle).toBe(true);
+  });
+
+  it("waitForIdle doesn't reject when the run throws", async () => {
+    class FailingTask extends CronTask {
+      public async task(): Promise<void> {
+        await flush();
+        throw new Error("boom");
+      }
+    }
+    const task = new FailingTask("failing", "* * * * *", { recordRuns: false });
+
+    const run = task.run();
+    await expect(task.waitForIdle()).resolves.toBeUndefined();
+    await expect(run).rejects.toThrow("boom");
+  });
+
+  it("waitForIdle resolves right away when nothing is running", async () => {
+    await expect(new GatedTask().waitForIdle()).resolves.toBeUndefined();
+  });
+});
@@ -1,26 +1,150 @@
 import cron from "node-cron";
+import pool from "../database/postgresClient";
+import { withAdvisoryLock } from "../database/advisory-lock";
+import { cronRunsSkippedTotal } from "../metrics";
+import { JobRunRecorder, JobRunReport } from "../job-runs";
+
+export type OverlapPolicy = "skip" | "queue";
+
+export interface CronTaskOptions {
+  // What to do when a tick fires while the previous run is still going:
+  // "skip" drops the tick, "queue" runs it once the previous run finishes (at most one waiting)
+  overlapPolicy?: OverlapPolicy;
+  // Also hold a Postgres advisory lock while running, so only one deployed instance runs the task
+  advisoryLock?: boolean;
+  // Record every run (and skipped tick) in the job_runs table
+  recordRuns?: boolean;
+}
 
 export abstract class CronTask {
   public name: string;
   public schedule: string;
+  protected options: Required<CronTaskOptions>;
   private job: cron.ScheduledTask;
+  private running: Promise<boolean> | null = null;
+  private queued: Promise<boolean> | null = null;
+  private stopped: boolean = false;
+  private lastReport: JobRunReport | null = null;
 
-  constructor(_name: string, _schedule: string) {
+  constructor(_name: string, _schedule: string, _options: CronTaskOptions = {}) {
     this.name = _name;
     this.schedule = _schedule;
+    this.options = {
+      overlapPolicy: _options.overlapPolicy ?? (process.env.CRON_OVERLAP_POLICY === "queue" ? "queue" : "skip"),
+      advisoryLock: _options.advisoryLock ?? process.env.CRON_ADVISORY_LOCK === "true",
+      recordRuns: _options.recordRuns ?? process.env.JOB_RUNS_ENABLED !== "false",
+    };
 
     this.job = cron.schedule(
       this.schedule,
       async () => {
-        await this.task();
+        try {
+          await this.run();
+        } catch (error) {
+          console.error(`[CronTask] ${this.name} failed:`, error);
+        }
       },
       {
-        scheduled: false,
+        scheduled: false
       }
     );
   }
 
-  public abstract task(): Promise<void>;
+  public abstract task(): Promise<JobRunReport | void>;
+
+  /**
+   * Run the task, guarded against overlapping runs in this process and, with
+   * advisoryLock, in other instances. Resolves to false if the run was skipped.
+   */
+  public async run(): Promise<boolean> {
+    if (this.stopped) {
+      console.log(`[CronTask] Not running ${this.name}: task has been stopped`);
+      return false;
+    }
+
+    if (this.running) {
+      if (this.options.overlapPolicy === "skip" || this.queued) {
+        console.log(`[CronTask] Skipping ${this.name}: previous run still in progress`);
+        cronRunsSkippedTotal.inc({ task: this.name, reason: "overlap" });
+        await this.recorder()?.skip("overlap");
+        return false;
+      }
+
+      console.log(`[CronTask] Queueing ${this.name} until the previous run finishes`);
+      this.queued = this.running
+        .catch(() => false)
+        .then(() => {
+          this.queued = null;
+          return this.run();
+        });
+      return this.queued;
+    }
+
+    const execution = this.execute();
+    this.running = execution;
+    try {
+      return await execution;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async execute(): Promise<boolean> {
+    const recorder = this.recorder();
+    await recorder?.start();
+    this.lastReport = null;
+
+    try {
+      if (!this.options.advisoryLock) {
+        this.lastReport = (await this.task()) || {};
+        await recorder?.finish(this.lastReport);
+        return true;
+      }
+
+      const lock = await withAdvisoryLock(pool, `invaders-bot:cron:${this.name}`, () => this.task());
+      if (!lock.acquired) {
+        console.log(`[CronTask] Skipping ${this.name}: another instance holds the lock`);
+        cronRunsSkippedTotal.inc({ task: this.name, reason: "locked" });
+        await recorder?.finish({ skipped: "locked" });
+        return false;
+      }
+
+      this.lastReport = lock.result || {};
+      await recorder?.finish(this.lastReport);
+      return true;
+    } catch (error) {
+      await recorder?.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report of the most recent completed run, null if it was skipped or threw
+   */
+  public getLastReport(): JobRunReport | null {
+    return this.lastReport;
+  }
+
+  private recorder(): JobRunRecorder | null {
+    return this.options.recordRuns ? new JobRunRecorder(this.name) : null;
+  }
+
+  /**
+   * Stop scheduling new runs. An active run keeps going, see waitForIdle().
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.job.stop();
+  }
+
+  /**
+   * Resolves once the active run (and a queued one, if any) has finished
+   */
+  public async waitForIdle(): Promise<void> {
+    while (this.running || this.queued) {
+      await (this.queued ?? this.running)!.catch(() => false);
+    }
+  }
 
   public register(): void {
     this.onRegister();
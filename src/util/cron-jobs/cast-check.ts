@@ -0,0 +1,22 @@
+import { CastChecker } from "../cast-check";
+import { CronTask } from "./base";
+import { JobRunReport } from "../job-runs";
+import { CastCheckParams } from "./config";
+
+export class CastCheckCron extends CronTask {
+  private params: CastCheckParams;
+
+  constructor(schedule: string, params: CastCheckParams) {
+    super("cast-check", schedule);
+    this.params = params;
+  }
+
+  public async task(): Promise<JobRunReport> {
+    const summary = await new CastChecker(this.params.fid, this.params.concurrency).run();
+
+    return {
+      counts: { fetched: summary.checked, cast: summary.recast, failed: summary.failed },
+      details: { broken: summary.broken },
+    };
+  }
+}
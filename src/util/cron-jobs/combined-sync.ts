@@ -1,33 +1,67 @@
-import { StoreFlashesCron } from "./store-flashes";
+import { StoreFlashesCron, StoreFlashesOptions } from "./store-flashes";
 import { FlashSyncCron } from "./flash-sync";
 import { CronTask } from "./base";
+import { IpfsReadinessWaiter, IpfsReadinessResult } from "../ipfs-readiness";
+import { JobRunReport, mergeJobRunReports } from "../job-runs";
+import { FlashSyncParams, RetryFailedCastsParams } from "./config";
+
+export interface CombinedSyncOptions extends StoreFlashesOptions {
+  flashSync?: FlashSyncParams;
+  retryFailedCasts?: RetryFailedCastsParams;
+}
 
 export class CombinedSyncCron extends CronTask {
-  constructor(schedule: string) {
+  private readiness = new IpfsReadinessWaiter();
+  private syncOptions: CombinedSyncOptions;
+
+  constructor(schedule: string, options: CombinedSyncOptions = {}) {
     super("combined-sync", schedule);
+    this.syncOptions = options;
   }
 
-  public async task(): Promise<void> {
+  public async task(): Promise<JobRunReport> {
     try {
       // Step 1: Store flashes from the API
       console.log("[CombinedSyncCron] Starting StoreFlashesCron...");
-      await StoreFlashesCron.executeTask();
+      const stored = await StoreFlashesCron.executeTask(this.syncOptions);
+      const { publishedFlashIds } = stored;
       console.log("[CombinedSyncCron] StoreFlashesCron completed");
 
-      // Step 2: Wait 3 minutes for image processing service to download and pin images
-      console.log("[CombinedSyncCron] Waiting 3 minutes for image processing...");
-      await new Promise(resolve => setTimeout(resolve, 3 * 60 * 1000)); // 3 minutes in milliseconds
-      console.log("[CombinedSyncCron] Wait complete");
+      // Step 2: Wait until the image processor has pinned what we just published (or the deadline passes)
+      let readiness: IpfsReadinessResult | null = null;
+      if (publishedFlashIds.length > 0) {
+        console.log(`[CombinedSyncCron] Waiting for ${publishedFlashIds.length} flashes to be pinned to IPFS...`);
+        readiness = await this.readiness.waitForPinned(publishedFlashIds);
+        if (readiness.ready) {
+          console.log(`[CombinedSyncCron] All ${readiness.pinnedCount} flashes pinned after ${Math.round(readiness.elapsedMs / 1000)}s`);
+        } else {
+          console.warn(
+            `[CombinedSyncCron] Deadline passed after ${Math.round(readiness.elapsedMs / 1000)}s: ${readiness.pinnedCount} pinned, ${readiness.pendingFlashIds.length} still pending (${readiness.pendingFlashIds.slice(0, 10).join(", ")}${readiness.pendingFlashIds.length > 10 ? ", ..." : ""})`
+          );
+        }
+      } else {
+        console.log("[CombinedSyncCron] No flashes published, skipping IPFS readiness wait");
+      }
 
       // Step 3: Sync flashes for Flashcastr users (now with IPFS hashes populated)
       console.log("[CombinedSyncCron] Starting FlashSyncCron...");
-      await FlashSyncCron.executeTask();
+      const synced = await FlashSyncCron.executeTask(this.syncOptions.flashSync?.flashTimespanMins);
       console.log("[CombinedSyncCron] FlashSyncCron completed");
 
       // Step 4: Retry any previously failed casts
       console.log("[CombinedSyncCron] Starting retry of failed casts...");
-      await FlashSyncCron.retryFailedCasts();
+      const retried = await FlashSyncCron.retryFailedCasts(this.syncOptions.retryFailedCasts);
       console.log("[CombinedSyncCron] Retry of failed casts completed");
+
+      // fetched/written come from the API step; FlashSync's own candidate counts would double count
+      return mergeJobRunReports(
+        { skipped: stored.skipped, counts: stored.counts, details: stored.details },
+        { counts: { cast: synced.counts?.cast, failed: synced.counts?.failed }, details: synced.details },
+        retried,
+        readiness
+          ? { details: { ipfsReadiness: { ready: readiness.ready, elapsedMs: readiness.elapsedMs, pending: readiness.pendingFlashIds.length } } }
+          : undefined,
+      );
     } catch (error) {
       console.error("[CombinedSyncCron] Error in combined sync:", error);
       throw error;
@@ -0,0 +1,209 @@
+import cron from "node-cron";
+
+export const JOB_NAMES = [
+  "combined-sync",
+  "store-flashes",
+  "flash-sync",
+  "retry-failed-casts",
+  "force-sync",
+  "cast-check",
+  "maintenance",
+] as const;
+
+export type JobName = (typeof JOB_NAMES)[number];
+
+// Which jobs are enabled unless JOB_<NAME>_ENABLED says otherwise:
+//   combined - the store -> IPFS wait -> flash-sync -> retry pipeline as a single job
+//   split    - the same steps as independent jobs on their own schedules
+//   none     - only jobs enabled explicitly
+export type JobPreset = "combined" | "split" | "none";
+
+export interface JobSettings {
+  enabled: boolean;
+  schedule: string;
+  // Run once at startup instead of waiting for the first tick
+  runOnStart: boolean;
+}
+
+export interface FlashSyncParams {
+  // How far back to look for flashes of registered users
+  flashTimespanMins: number;
+}
+
+export interface RetryFailedCastsParams {
+  lookbackDays: number;
+  maxPerRun: number;
+}
+
+export interface ForceSyncParams {
+  // Fixed start date; the backfill then resumes from its checkpoint across runs
+  since: Date | null;
+  // Without `since`, republish flashes from the last N hours
+  lookbackHours: number;
+  // Flashes read per keyset page (and per checkpoint)
+  batchSize: number;
+  messagesPerSecond: number;
+  city: string | null;
+  player: string | null;
+  missingIpfsOnly: boolean;
+}
+
+export interface CastCheckParams {
+  // Only check casts of this user, all users when null
+  fid: number | null;
+  concurrency: number;
+}
+
+export interface MaintenanceParams {
+  // job_runs rows older than this are deleted, 0 keeps everything
+  jobRunsRetentionDays: number;
+  // Sent outbox events older than this are deleted, 0 keeps everything
+  outboxRetentionDays: number;
+  analyzeFlashes: boolean;
+}
+
+export interface JobParams {
+  flashSync: FlashSyncParams;
+  retryFailedCasts: RetryFailedCastsParams;
+  forceSync: ForceSyncParams;
+  castCheck: CastCheckParams;
+  maintenance: MaintenanceParams;
+}
+
+export interface JobsConfig {
+  preset: JobPreset;
+  jobs: Record<JobName, JobSettings>;
+  params: JobParams;
+}
+
+const DEFAULT_SCHEDULES: Record<JobName, string> = {
+  "combined-sync": "*/5 * * * *",
+  "store-flashes": "*/5 * * * *",
+  // Two minutes after store-flashes, so the image processor has had time to pin new flashes
+  "flash-sync": "2-59/5 * * * *",
+  "retry-failed-casts": "*/15 * * * *",
+  "force-sync": "0 * * * *",
+  "cast-check": "0 4 * * 0",
+  maintenance: "30 3 * * *",
+};
+
+const PRESET_JOBS: Record<JobPreset, JobName[]> = {
+  combined: ["combined-sync"],
+  split: ["store-flashes", "flash-sync", "retry-failed-casts"],
+  none: [],
+};
+
+export function isJobName(value: string): value is JobName {
+  return (JOB_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * JOB_CAST_CHECK_ENABLED etc.
+ */
+export function jobEnvPrefix(name: JobName): string {
+  return `JOB_${name.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/**
+ * Read job settings from env. The preset decides the defaults, per-job
+ * JOB_<NAME>_ENABLED / _SCHEDULE / _RUN_ON_START override them.
+ */
+export function jobsConfigFromEnv(env: NodeJS.ProcessEnv = process.env): JobsConfig {
+  const preset = (env.JOB_PRESET || "combined") as JobPreset;
+  const presetJobs = PRESET_JOBS[preset] ?? [];
+
+  const jobs = {} as Record<JobName, JobSettings>;
+  for (const name of JOB_NAMES) {
+    const prefix = jobEnvPrefix(name);
+    const inPreset = presetJobs.includes(name);
+    // CRON_SCHEDULE predates the registry and still sets the combined pipeline's schedule
+    const fallbackSchedule = name === "combined-sync" ? env.CRON_SCHEDULE : undefined;
+
+    jobs[name] = {
+      enabled: env[`${prefix}_ENABLED`] ? env[`${prefix}_ENABLED`] === "true" : inPreset,
+      schedule: env[`${prefix}_SCHEDULE`] || fallbackSchedule || DEFAULT_SCHEDULES[name],
+      runOnStart: env[`${prefix}_RUN_ON_START`] ? env[`${prefix}_RUN_ON_START`] === "true" : inPreset,
+    };
+  }
+
+  return {
+    preset,
+    jobs,
+    params: {
+      flashSync: {
+        flashTimespanMins: parseInt(env.FLASH_TIMESPAN_MINS || "60"),
+      },
+      retryFailedCasts: {
+        lookbackDays: parseInt(env.RETRY_LOOKBACK_DAYS || "7"),
+        maxPerRun: parseInt(env.MAX_RETRIES_PER_RUN || "50"),
+      },
+      forceSync: {
+        since: env.JOB_FORCE_SYNC_SINCE ? new Date(env.JOB_FORCE_SYNC_SINCE) : null,
+        lookbackHours: parseInt(env.JOB_FORCE_SYNC_LOOKBACK_HOURS || "24"),
+        batchSize: parseInt(env.JOB_FORCE_SYNC_BATCH_SIZE || "500"),
+        messagesPerSecond: parseFloat(env.JOB_FORCE_SYNC_RATE_PER_SECOND || "10"),
+        city: env.JOB_FORCE_SYNC_CITY || null,
+        player: env.JOB_FORCE_SYNC_PLAYER || null,
+        missingIpfsOnly: env.JOB_FORCE_SYNC_MISSING_IPFS_ONLY === "true",
+      },
+      castCheck: {
+        fid: env.JOB_CAST_CHECK_FID ? parseInt(env.JOB_CAST_CHECK_FID) : null,
+        concurrency: parseInt(env.JOB_CAST_CHECK_CONCURRENCY || "10"),
+      },
+      maintenance: {
+        jobRunsRetentionDays: parseInt(env.JOB_MAINTENANCE_JOB_RUNS_RETENTION_DAYS || "30"),
+        outboxRetentionDays: parseInt(env.JOB_MAINTENANCE_OUTBOX_RETENTION_DAYS || "7"),
+        analyzeFlashes: env.JOB_MAINTENANCE_ANALYZE !== "false",
+      },
+    },
+  };
+}
+
+/**
+ * Throws on the first invalid setting
+ */
+export function validateJobsConfig(config: JobsConfig): void {
+  if (!PRESET_JOBS[config.preset]) {
+    throw new Error(`JOB_PRESET must be one of: ${Object.keys(PRESET_JOBS).join(", ")}`);
+  }
+
+  // Disabled jobs too: `yarn invaders run <job>` builds them, and CronTask schedules on construction
+  for (const name of JOB_NAMES) {
+    const job = config.jobs[name];
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`${jobEnvPrefix(name)}_SCHEDULE is not a valid cron expression: ${job.schedule}`);
+    }
+  }
+
+  const { params } = config;
+  const positive: [string, number][] = [
+    ["FLASH_TIMESPAN_MINS", params.flashSync.flashTimespanMins],
+    ["RETRY_LOOKBACK_DAYS", params.retryFailedCasts.lookbackDays],
+    ["MAX_RETRIES_PER_RUN", params.retryFailedCasts.maxPerRun],
+    ["JOB_FORCE_SYNC_LOOKBACK_HOURS", params.forceSync.lookbackHours],
+    ["JOB_FORCE_SYNC_BATCH_SIZE", params.forceSync.batchSize],
+    ["JOB_FORCE_SYNC_RATE_PER_SECOND", params.forceSync.messagesPerSecond],
+    ["JOB_CAST_CHECK_CONCURRENCY", params.castCheck.concurrency],
+  ];
+  for (const [key, value] of positive) {
+    if (!(value > 0)) {
+      throw new Error(`${key} must be greater than 0`);
+    }
+  }
+
+  if (params.castCheck.fid !== null && !(params.castCheck.fid > 0)) {
+    throw new Error("JOB_CAST_CHECK_FID must be a positive number");
+  }
+
+  if (params.forceSync.since && isNaN(params.forceSync.since.getTime())) {
+    throw new Error("JOB_FORCE_SYNC_SINCE must be a date, e.g. 2026-10-01");
+  }
+
+  if (!(params.maintenance.jobRunsRetentionDays >= 0)) {
+    throw new Error("JOB_MAINTENANCE_JOB_RUNS_RETENTION_DAYS must be >= 0");
+  }
+
+  if (!(params.maintenance.outboxRetentionDays >= 0)) {
+    throw new Error("JOB_MAINTENANCE_OUTBOX_RETENTION_DAYS must be >= 0");
+  }
+}
@@ -9,6 +9,8 @@ import { NeynarUsers } from "../neynar/users";
 import { formattedCurrentTime } from "../times";
 import { CronTask } from "./base";
 import { castsPublishedTotal, castsFailedTotal } from "../metrics";
+import { JobRunReport } from "../job-runs";
+import { FlashSyncParams, RetryFailedCastsParams } from "./config";
 
 config({ path: ".env" });
 
@@ -17,21 +19,29 @@ export class FlashSyncCron extends CronTask {
     private static retryLookbackDays = 7; // 7 days lookback for retries
     private static maxRetriesPerRun = 50; // Max flashes to retry per run
 
-    constructor(schedule: string) {
+    private params: FlashSyncParams;
+
+    constructor(schedule: string, params?: FlashSyncParams) {
         super("flash-sync", schedule);
+        this.params = params ?? {
+            flashTimespanMins: FlashSyncCron.flashTimespanMins,
+        };
     }
 
-    public async task(): Promise<void> {
-        return FlashSyncCron.executeTask();
+    public async task(): Promise<JobRunReport> {
+        return FlashSyncCron.executeTask(this.params.flashTimespanMins);
     }
 
-    public static async executeTask(): Promise<void> {
+    public static async executeTask(
+        flashTimespanMins: number = FlashSyncCron.flashTimespanMins,
+    ): Promise<JobRunReport> {
+        const counts = { fetched: 0, written: 0, cast: 0, failed: 0 };
         try {
             /* ------------------------------------------------------------------ */
             /* 1.  Fetch registered users                                         */
             /* ------------------------------------------------------------------ */
             const users = await new FlashcastrUsersDb().getMany({});
-            if (!users.length) return;
+            if (!users.length) return { counts };
 
             const usersByUsername = new Map(users.map((u) => [u.username, u]));
 
@@ -39,13 +49,14 @@ export class FlashSyncCron extends CronTask {
             /* 2.  Fetch flashes from the last N minutes                          */
             /* ------------------------------------------------------------------ */
             const sinceUnix = getUnixTime(
-                new Date(Date.now() - FlashSyncCron.flashTimespanMins * 60_000),
+                new Date(Date.now() - flashTimespanMins * 60_000),
             );
             const flashes = await new PostgresFlashesDb().getSinceByPlayers(
                 sinceUnix,
                 [...usersByUsername.keys()].map((u) => u.toLowerCase()),
             );
-            if (!flashes.length) return;
+            counts.fetched = flashes.length;
+            if (!flashes.length) return { counts };
 
             /* ------------------------------------------------------------------ */
             /* 3.  Remove flashes we already processed                            */
@@ -57,7 +68,7 @@ export class FlashSyncCron extends CronTask {
             const newFlashes = flashes.filter(
                 (f) => !alreadyStored.some((e) => e.flash_id === f.flash_id),
             );
-            if (!newFlashes.length) return;
+            if (!newFlashes.length) return { counts };
 
             /* ------------------------------------------------------------------ */
             /* 4.  Fetch Neynar profiles (dedup with Set for speed)               */
@@ -116,8 +127,10 @@ export class FlashSyncCron extends CronTask {
                             channelId: "invaders",
                         });
                         castsPublishedTotal.inc();
+                        counts.cast++;
                     } catch (err) {
                         castsFailedTotal.inc();
+                        counts.failed++;
                         console.error(
                             `Failed to auto-cast flash ${flash.flash_id}:`,
                             err,
@@ -140,18 +153,27 @@ export class FlashSyncCron extends CronTask {
             /* 6.  Persist & log                                                  */
             /* ------------------------------------------------------------------ */
             if (docs.length) await flashcastrFlashesDb.insertMany(docs);
+            counts.written = docs.length;
 
             console.log(
                 `${docs.length} flashes processed, ` +
                     `${docs.filter((d) => d.cast_hash).length} auto-casts. ` +
                     formattedCurrentTime(),
             );
+
+            return { counts };
         } catch (error) {
             console.error("flash-sync cron failed:", error);
+            return { counts, details: { error: (error as Error).message } };
         }
     }
 
-    public static async retryFailedCasts(): Promise<void> {
+    public static async retryFailedCasts(
+        params: RetryFailedCastsParams = {
+            lookbackDays: FlashSyncCron.retryLookbackDays,
+            maxPerRun: FlashSyncCron.maxRetriesPerRun,
+        },
+    ): Promise<JobRunReport> {
         try {
             console.log("[FlashSyncCron] Starting retry of failed casts...");
 
@@ -161,13 +183,13 @@ export class FlashSyncCron extends CronTask {
             const flashcastrFlashesDb = new FlashcastrFlashesDb();
             const failedFlashes =
                 await flashcastrFlashesDb.getFailedCastsForRetry(
-                    FlashSyncCron.maxRetriesPerRun,
-                    FlashSyncCron.retryLookbackDays,
+                    params.maxPerRun,
+                    params.lookbackDays,
                 );
 
             if (!failedFlashes.length) {
                 console.log("[FlashSyncCron] No failed casts to retry");
-                return;
+                return {};
             }
 
             console.log(
@@ -226,11 +248,14 @@ export class FlashSyncCron extends CronTask {
                 `[FlashSyncCron] Retry complete: ${successCount} successful, ${failCount} failed. ` +
                     formattedCurrentTime(),
             );
+
+            return { counts: { cast: successCount, failed: failCount } };
         } catch (error) {
             console.error(
                 "[FlashSyncCron] Retry failed casts task failed:",
                 error,
             );
+            return { details: { retryError: (error as Error).message } };
         }
     }
 }
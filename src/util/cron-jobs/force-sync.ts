@@ -1,52 +1,67 @@
 import { config } from "dotenv";
-import { PostgresFlashesDb } from "../database/invader-flashes";
-import { RabbitImagePush } from "../rabbitmq";
+import { FlashBackfill } from "../backfill";
 import { formattedCurrentTime } from "../times";
 import { CronTask } from "./base";
+import { JobRunReport } from "../job-runs";
+import { ForceSyncParams } from "./config";
 
 config({ path: ".env" });
 
+export interface ForceSyncOptions extends Partial<ForceSyncParams> {
+  // Ignore the saved checkpoint and republish from the start
+  restart?: boolean;
+  // Count what would be published without publishing (and without recording a job run)
+  dryRun?: boolean;
+}
+
+/**
+ * Republishes flashes to the image processor through a checkpointed FlashBackfill.
+ * With a fixed `since` the backfill covers everything from then on; without one it
+ * covers the last lookbackHours. Either way it resumes across runs and restarts.
+ */
 export class ForceSyncCron extends CronTask {
-  private sinceDate: Date;
-  constructor(sinceDate: Date) {
-    super("force-sync", "*/5 * * * *");
-    this.sinceDate = sinceDate;
+  private forceSyncOptions: ForceSyncOptions;
+
+  constructor(options: ForceSyncOptions, schedule: string = "*/5 * * * *") {
+    super("force-sync", schedule, options.dryRun ? { recordRuns: false } : {});
+    this.forceSyncOptions = options;
   }
 
-  public async task(): Promise<void> {
-    const sinceUnix = Math.floor(this.sinceDate.getTime() / 1000);
-    try {
-      const flashes = await new PostgresFlashesDb().getSince(sinceUnix);
-
-      if (!flashes.length) {
-        console.error(`No flashes found since ${this.sinceDate.toISOString()}. ${formattedCurrentTime()}`);
-        throw new Error("No flashes found since " + this.sinceDate.toISOString());
-      }
-
-      console.log(`Found ${flashes.length} flashes since ${this.sinceDate.toISOString()}. Starting force push...`);
-      const rabbit = new RabbitImagePush();
-      let idx = 0;
-      const batchSize = 500;
-      while (idx < flashes.length) {
-        const batch = flashes.slice(idx, idx + batchSize);
-        await Promise.all(
-          batch.map(async (flash) => {
-            try {
-              await rabbit.publish(flash);
-            } catch (err) {
-              console.error(`Failed to publish flash_id ${flash.flash_id}:`, err);
-            }
-          })
-        );
-        idx += batchSize;
-        if (idx < flashes.length) {
-          console.log(`Published ${idx}/${flashes.length}... waiting 30s before next batch.`);
-          await new Promise((res) => setTimeout(res, 60000));
-        }
-      }
-      console.log(`All ${flashes.length} flashes published to RabbitMQ. ${formattedCurrentTime()}`);
-    } catch (error) {
-      console.error("force-sync failed:", error);
+  /**
+   * Throws if the backfill failed or a publish stopped it, so the run is recorded as failed
+   */
+  public async task(): Promise<JobRunReport> {
+    const { since, lookbackHours = 24, batchSize = 500, messagesPerSecond = 10, city, player, missingIpfsOnly, restart, dryRun } =
+      this.forceSyncOptions;
+
+    const result = await new FlashBackfill({
+      name: this.name,
+      filter: { since: since ?? undefined, city: city ?? undefined, player: player ?? undefined, missingIpfsOnly },
+      lookbackHours,
+      pageSize: batchSize,
+      messagesPerSecond,
+      restart,
+      dryRun,
+    }).run();
+
+    console.log(
+      `force-sync ${result.completed ? "finished" : `stopped (${result.stoppedReason ?? "dry run"})`}: ` +
+        `${result.published}/${result.total} flashes published ${since ? `since ${since.toISOString()}` : `from the last ${lookbackHours}h`}. ${formattedCurrentTime()}`,
+    );
+
+    if (result.stoppedReason === "publish_failed") {
+      throw new Error(`force-sync stopped after flash ${result.lastFlashId} (${result.published} published): ${result.error}`);
     }
+
+    return {
+      counts: { fetched: result.total, published: result.published },
+      details: {
+        resumed: result.resumed,
+        lastFlashId: result.lastFlashId,
+        remaining: result.remaining,
+        ...(result.stoppedReason ? { stoppedReason: result.stoppedReason } : {}),
+        ...(dryRun ? { dryRun: true } : {}),
+      },
+    };
   }
 }
@@ -0,0 +1,44 @@
+import pool from "../database/postgresClient";
+import { DatabasePerformance } from "../database/performance";
+import { JobRunsDb } from "../database/job-runs";
+import { OutboxDb } from "../database/outbox";
+import { CronTask } from "./base";
+import { JobRunReport } from "../job-runs";
+import { MaintenanceParams } from "./config";
+
+/**
+ * Housekeeping: prunes old job_runs rows and sent outbox events, and refreshes planner statistics on flashes
+ */
+export class MaintenanceCron extends CronTask {
+  private params: MaintenanceParams;
+
+  constructor(schedule: string, params: MaintenanceParams) {
+    super("maintenance", schedule);
+    this.params = params;
+  }
+
+  public async task(): Promise<JobRunReport> {
+    const details: Record<string, unknown> = {};
+
+    if (this.params.jobRunsRetentionDays > 0) {
+      const cutoff = new Date(Date.now() - this.params.jobRunsRetentionDays * 24 * 60 * 60 * 1000);
+      const deleted = await new JobRunsDb().deleteOlderThan(cutoff);
+      console.log(`[MaintenanceCron] Deleted ${deleted} job runs started before ${cutoff.toISOString()}`);
+      details.jobRunsDeleted = deleted;
+    }
+
+    if (this.params.outboxRetentionDays > 0) {
+      const cutoff = new Date(Date.now() - this.params.outboxRetentionDays * 24 * 60 * 60 * 1000);
+      const deleted = await new OutboxDb().deleteSentBefore(cutoff);
+      console.log(`[MaintenanceCron] Deleted ${deleted} outbox events sent before ${cutoff.toISOString()}`);
+      details.outboxEventsDeleted = deleted;
+    }
+
+    if (this.params.analyzeFlashes) {
+      await new DatabasePerformance(pool).analyzeFlashesTable();
+      details.analyzedFlashes = true;
+    }
+
+    return { details };
+  }
+}
@@ -0,0 +1,83 @@
+import { CronTask } from "./base";
+import { CombinedSyncCron } from "./combined-sync";
+import { StoreFlashesCron } from "./store-flashes";
+import { FlashSyncCron } from "./flash-sync";
+import { RetryFailedCastsCron } from "./retry-failed-casts";
+import { ForceSyncCron } from "./force-sync";
+import { CastCheckCron } from "./cast-check";
+import { MaintenanceCron } from "./maintenance";
+import { JOB_NAMES, JobName, JobSettings, JobsConfig, jobsConfigFromEnv, validateJobsConfig } from "./config";
+
+export interface RegisteredJob {
+  name: JobName;
+  settings: JobSettings;
+  task: CronTask;
+}
+
+export interface CreateJobOptions {
+  // Don't let the peak-hour scheduling policy skip the API call (store-flashes, combined-sync)
+  ignoreSchedule?: boolean;
+}
+
+// Steps of the combined pipeline; running them next to it does the same work twice
+const COMBINED_STEPS: JobName[] = ["store-flashes", "flash-sync", "retry-failed-casts"];
+
+/**
+ * Builds the cron tasks described by JobsConfig
+ */
+export class JobRegistry {
+  private config: JobsConfig;
+
+  constructor(config: JobsConfig = jobsConfigFromEnv()) {
+    validateJobsConfig(config);
+    this.config = config;
+  }
+
+  public getSettings(name: JobName): JobSettings {
+    return this.config.jobs[name];
+  }
+
+  /**
+   * Build a job whether or not it is enabled (enabled only controls what gets scheduled)
+   */
+  public create(name: JobName, options: CreateJobOptions = {}): CronTask {
+    const { schedule } = this.config.jobs[name];
+    const { params } = this.config;
+
+    switch (name) {
+      case "combined-sync":
+        return new CombinedSyncCron(schedule, {
+          flashSync: params.flashSync,
+          retryFailedCasts: params.retryFailedCasts,
+          ignoreSchedule: options.ignoreSchedule,
+        });
+      case "store-flashes":
+        return new StoreFlashesCron(schedule, { ignoreSchedule: options.ignoreSchedule });
+      case "flash-sync":
+        return new FlashSyncCron(schedule, params.flashSync);
+      case "retry-failed-casts":
+        return new RetryFailedCastsCron(schedule, params.retryFailedCasts);
+      case "force-sync":
+        return new ForceSyncCron(params.forceSync, schedule);
+      case "cast-check":
+        return new CastCheckCron(schedule, params.castCheck);
+      case "maintenance":
+        return new MaintenanceCron(schedule, params.maintenance);
+    }
+  }
+
+  public createEnabled(): RegisteredJob[] {
+    const enabled = JOB_NAMES.filter((name) => this.config.jobs[name].enabled);
+
+    const duplicated = enabled.includes("combined-sync") ? COMBINED_STEPS.filter((name) => enabled.includes(name)) : [];
+    if (duplicated.length > 0) {
+      console.warn(`[JobRegistry] combined-sync already runs ${duplicated.join(", ")}; they will also run on their own schedule`);
+    }
+
+    console.log(
+      `[JobRegistry] Preset ${this.config.preset}, enabled jobs: ${enabled.length ? enabled.join(", ") : "none"}`,
+    );
+
+    return enabled.map((name) => ({ name, settings: this.config.jobs[name], task: this.create(name) }));
+  }
+}
@@ -0,0 +1,17 @@
+import { FlashSyncCron } from "./flash-sync";
+import { CronTask } from "./base";
+import { JobRunReport } from "../job-runs";
+import { RetryFailedCastsParams } from "./config";
+
+export class RetryFailedCastsCron extends CronTask {
+  private params?: RetryFailedCastsParams;
+
+  constructor(schedule: string, params?: RetryFailedCastsParams) {
+    super("retry-failed-casts", schedule);
+    this.params = params;
+  }
+
+  public async task(): Promise<JobRunReport> {
+    return FlashSyncCron.retryFailedCasts(this.params);
+  }
+}
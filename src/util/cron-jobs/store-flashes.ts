@@ -1,13 +1,27 @@
+import { randomUUID } from "crypto";
 import { PostgresFlashesDb } from "../database/invader-flashes";
+import { Flash } from "../database/invader-flashes/types";
 import { FlashcastrUsersDb } from "../database/flashcastr-users";
 import SpaceInvadersAPI from "../flash-invaders";
-import { RabbitImagePush } from "../rabbitmq";
+import { spaceInvadersCircuitBreaker } from "../circuit-breaker";
+import { schedulingPolicy } from "../scheduling";
+import { JobRunReport } from "../job-runs";
+import {
+    FlashInvaderResponse,
+    QuarantinedFlash,
+} from "../flash-invaders/types";
+import { outboxRelay } from "../outbox";
+import { OutboxDb } from "../database/outbox";
+import { flashProcessing } from "../flash-processing";
+import { flashQuarantine } from "../quarantine";
 import { formattedCurrentTime } from "../times";
 import { CronTask } from "./base";
-import { DiskPersistence } from "../disk-persistence";
+import { JournalEntry, RetryStage, flashJournal } from "../flash-journal";
+import { MalformedFlashStore } from "../flash-invaders/malformed";
 import {
     flashesNewTotal,
     apiCallsTotal,
+    apiCallDurationSeconds,
     syncSkippedTotal,
     lastSyncTimestamp,
     lastApiCallTimestamp,
@@ -16,66 +30,126 @@ import {
     syncDurationSeconds,
 } from "../metrics";
 
+export interface StoreFlashesResult extends JobRunReport {
+    // Flash ids handed to the image processor this run (new and retried)
+    publishedFlashIds: number[];
+}
+
+export interface StoreFlashesOptions {
+    // Call the API even when the scheduling policy would throttle this tick (on-demand runs)
+    ignoreSchedule?: boolean;
+}
+
+interface ProcessFlashesResult {
+    publishedFlashIds: number[];
+    written: number;
+    failed: number;
+}
+
 export class StoreFlashesCron extends CronTask {
-    private static diskPersistence: DiskPersistence = new DiskPersistence();
-    private static lastFlashCountValue: string | null = null;
     private static consecutiveNoChanges: number = 0;
 
-    constructor(schedule: string) {
+    private storeOptions: StoreFlashesOptions;
+
+    constructor(schedule: string, options: StoreFlashesOptions = {}) {
         super("store-flashes", schedule);
+        this.storeOptions = options;
     }
 
-    public async task(): Promise<void> {
-        return StoreFlashesCron.executeTask();
+    public async task(): Promise<JobRunReport> {
+        return StoreFlashesCron.executeTask(this.storeOptions);
     }
 
-    public static async executeTask(): Promise<void> {
-        // Smart scheduling: skip some runs during European night hours (11 PM - 6 AM CET)
-        if (!StoreFlashesCron.isPeakFlashTime()) {
-            // During off-peak, only run every other scheduled time (reduces frequency by 50%)
-            const shouldSkip = Math.random() < 0.5;
-            if (shouldSkip) {
-                console.log(
-                    `[StoreFlashesCron] Skipping run during off-peak hours (European night)`,
-                );
-                syncSkippedTotal.inc({ reason: "off_peak_hours" });
-                return;
-            }
+    /**
+     * Skip reasons match syncSkippedTotal's reason label
+     */
+    public static async executeTask(
+        options: StoreFlashesOptions = {},
+    ): Promise<StoreFlashesResult> {
+        const result: StoreFlashesResult = {
+            publishedFlashIds: [],
+            counts: { fetched: 0, written: 0, published: 0, failed: 0 },
+        };
+
+        // Timezone-aware peak windows (or adaptive arrival rates) decide whether this tick calls the API
+        const schedule = await schedulingPolicy.shouldRun();
+        if (!schedule.run && options.ignoreSchedule) {
+            console.log(
+                `[StoreFlashesCron] Ignoring scheduling policy for on-demand run (${schedule.reason})`,
+            );
+        } else if (!schedule.run) {
+            const reason =
+                schedule.mode === "adaptive" ? "low_activity" : "off_peak_hours";
+            console.log(`[StoreFlashesCron] Skipping run: ${schedule.reason}`);
+            syncSkippedTotal.inc({ reason });
+            return { ...result, skipped: reason };
         }
 
         const syncStartTime = Date.now();
         const invaderApi = new SpaceInvadersAPI();
 
-        // First, try to retry any previously failed flashes
-        const previouslyFailedFlashes =
-            await StoreFlashesCron.diskPersistence.retryFailedFlashes();
-        if (previouslyFailedFlashes.length > 0) {
+        // First, retry the journaled flashes whose backoff is over
+        await StoreFlashesCron.retryJournaled(result);
+
+        // Upstream known to be failing: don't spend a request until the circuit allows a probe
+        if (await spaceInvadersCircuitBreaker.isOpen()) {
+            const { nextAttemptAt } = spaceInvadersCircuitBreaker.getSnapshot();
             console.log(
-                `[StoreFlashesCron] Retrying ${previouslyFailedFlashes.length} previously failed flashes...`,
+                `[StoreFlashesCron] Skipping API call, circuit open until ${new Date(nextAttemptAt ?? 0).toISOString()}`,
             );
-            await StoreFlashesCron.processFlashes(
-                previouslyFailedFlashes,
-                "retry-failed-flashes",
+            syncSkippedTotal.inc({ reason: "circuit_open" });
+            return { ...result, skipped: "circuit_open" };
+        }
+
+        // The API told us to back off (Retry-After on a 429/503): respect it across runs and restarts
+        const notBefore = await invaderApi.getNotBefore();
+        if (notBefore) {
+            console.log(
+                `[StoreFlashesCron] Skipping API call, upstream asked not to be called before ${new Date(notBefore.until).toISOString()} (HTTP ${notBefore.status})`,
             );
+            syncSkippedTotal.inc({ reason: "retry_after" });
+            return { ...result, skipped: "retry_after" };
         }
 
         lastApiCallTimestamp.set(Date.now() / 1000);
-        let flashes;
-        try {
-            flashes = await invaderApi.getFlashes();
-            apiCallsTotal.inc({ result: "success" });
-        } catch (error) {
-            apiCallsTotal.inc({ result: "error" });
-            throw error;
+        const fetchResult = await invaderApi.getNewFlashes();
+        apiCallsTotal.inc({ result: fetchResult.kind });
+        apiCallDurationSeconds.observe(
+            { result: fetchResult.kind },
+            fetchResult.durationMs / 1000,
+        );
+
+        if (fetchResult.kind === "circuit_open") {
+            console.log(`[StoreFlashesCron] Skipping run: ${fetchResult.error}`);
+            syncSkippedTotal.inc({ reason: "circuit_open" });
+            return { ...result, skipped: "circuit_open" };
         }
 
-        if (
-            !flashes ||
-            !flashes.with_paris.length ||
-            !flashes.without_paris.length
-        ) {
-            console.error("No flashes found since " + formattedCurrentTime());
-            throw new Error("No flashes found since " + formattedCurrentTime());
+        if (fetchResult.kind !== "ok") {
+            const message = `Space Invaders API call failed: ${fetchResult.kind}${fetchResult.status ? ` (HTTP ${fetchResult.status})` : ""} via ${fetchResult.proxy ?? "direct"} after ${fetchResult.durationMs}ms and ${fetchResult.attempts} attempt(s) - ${fetchResult.error}`;
+            console.error(`[StoreFlashesCron] ${message}`);
+            throw new Error(message);
+        }
+
+        console.log(
+            `[StoreFlashesCron] Fetched flashes via ${fetchResult.proxy ?? "direct"} in ${fetchResult.durationMs}ms`,
+        );
+
+        const { delta } = fetchResult;
+        const flashes = delta.response;
+        result.counts!.fetched = new Set(
+            [...flashes.with_paris, ...flashes.without_paris].map(
+                (f) => f.flash_id,
+            ),
+        ).size;
+        result.details = {
+            proxy: fetchResult.proxy,
+            fetchDurationMs: fetchResult.durationMs,
+            fingerprint: delta.fingerprint,
+        };
+
+        if (flashes.quarantined.length > 0) {
+            await StoreFlashesCron.recordQuarantinedFlashes(flashes.quarantined);
         }
 
         // Update flash count gauge
@@ -84,8 +158,8 @@ export class StoreFlashesCron extends CronTask {
             lastFlashCount.set(parseInt(currentFlashCount, 10) || 0);
         }
 
-        // Check if flash count has changed to avoid unnecessary processing
-        if (StoreFlashesCron.lastFlashCountValue === currentFlashCount) {
+        // Same flash id set as the last committed response: nothing to do
+        if (delta.unchanged) {
             StoreFlashesCron.consecutiveNoChanges++;
             consecutiveUnchangedSyncs.set(StoreFlashesCron.consecutiveNoChanges);
 
@@ -102,41 +176,205 @@ export class StoreFlashesCron extends CronTask {
                     `[StoreFlashesCron] Backoff skip (${StoreFlashesCron.consecutiveNoChanges} consecutive unchanged, count: ${currentFlashCount})`,
                 );
                 syncSkippedTotal.inc({ reason: "backoff" });
-                return;
+                return { ...result, skipped: "backoff" };
             }
 
             console.log(
-                `[StoreFlashesCron] No new flashes detected (${StoreFlashesCron.consecutiveNoChanges} consecutive, count: ${currentFlashCount}) - skipping processing`,
+                `[StoreFlashesCron] No new flashes detected (${StoreFlashesCron.consecutiveNoChanges} consecutive, count: ${currentFlashCount}, fingerprint: ${delta.fingerprint.slice(0, 12)}) - skipping processing`,
             );
             syncSkippedTotal.inc({ reason: "no_changes" });
-            return;
+            return { ...result, skipped: "no_changes" };
         }
 
         // Reset backoff counter when we detect changes
+        const newFlashCount =
+            delta.newFlashes.with_paris.length +
+            delta.newFlashes.without_paris.length;
         console.log(
-            `[StoreFlashesCron] Flash count changed: ${StoreFlashesCron.lastFlashCountValue} → ${currentFlashCount} (after ${StoreFlashesCron.consecutiveNoChanges} unchanged)`,
+            `[StoreFlashesCron] Feed changed: ${delta.previousFingerprint?.slice(0, 12) ?? "none"} → ${delta.fingerprint.slice(0, 12)}, ${newFlashCount} flashes new or not stored with an ipfs_cid yet (high-water mark ${delta.previousHighWaterMark ?? "none"}) (after ${StoreFlashesCron.consecutiveNoChanges} unchanged)`,
         );
         StoreFlashesCron.consecutiveNoChanges = 0;
         consecutiveUnchangedSyncs.set(0);
-        StoreFlashesCron.lastFlashCountValue = currentFlashCount;
 
-        const flattened = [...flashes.with_paris, ...flashes.without_paris];
-        await StoreFlashesCron.processFlashes(
-            flattened,
-            "new-flashes",
-            flashes,
-        );
+        if (newFlashCount > 0) {
+            const flattened = [
+                ...delta.newFlashes.with_paris,
+                ...delta.newFlashes.without_paris,
+            ];
+            StoreFlashesCron.addProcessed(
+                result,
+                await StoreFlashesCron.processFlashes(
+                    flattened,
+                    "new-flashes",
+                    delta.newFlashes,
+                ),
+            );
+        } else {
+            syncSkippedTotal.inc({ reason: "no_new_flashes" });
+        }
+
+        // Failed flashes are journaled (a journal write failure throws before this point) and
+        // unpublished events stay in the outbox, so the cursor can advance
+        await invaderApi.commitFeedCursor(delta);
 
         // Record sync completion metrics
         lastSyncTimestamp.set(Date.now() / 1000);
         syncDurationSeconds.observe((Date.now() - syncStartTime) / 1000);
+
+        return result;
+    }
+
+    /**
+     * Retry due journal entries from the stage that failed; entries out of attempts are quarantined
+     */
+    private static async retryJournaled(
+        result: StoreFlashesResult,
+    ): Promise<void> {
+        const pendingCount = flashJournal.pendingCount();
+        const due = flashJournal.dueEntries();
+        if (due.length === 0) {
+            if (pendingCount > 0) {
+                console.log(
+                    `[StoreFlashesCron] ${pendingCount} journaled flashes waiting for their retry backoff`,
+                );
+            }
+            return;
+        }
+
+        const exhausted = due.filter((entry) => flashJournal.isExhausted(entry));
+        let retrying = due;
+        if (
+            exhausted.length > 0 &&
+            (await flashQuarantine.quarantineJournaled(exhausted))
+        ) {
+            await flashJournal.ack(exhausted);
+            retrying = due.filter((entry) => !exhausted.includes(entry));
+            if (retrying.length === 0) return;
+        }
+
+        const fromWrite = retrying.filter((entry) => entry.stage !== "publish");
+        const fromPublish = retrying.filter((entry) => entry.stage === "publish");
+        console.log(
+            `[StoreFlashesCron] Retrying ${retrying.length} journaled flashes (${fromWrite.length} from the database write, ${fromPublish.length} from the publish, ${pendingCount - due.length} not due yet)`,
+        );
+
+        if (fromWrite.length > 0) {
+            StoreFlashesCron.addProcessed(
+                result,
+                await StoreFlashesCron.processFlashes(
+                    StoreFlashesCron.uniqueFlashes(fromWrite),
+                    "retry-failed-flashes",
+                    undefined,
+                    fromWrite,
+                ),
+            );
+        }
+        if (fromPublish.length > 0) {
+            StoreFlashesCron.addProcessed(
+                result,
+                await StoreFlashesCron.retryPublish(fromPublish),
+            );
+        }
     }
 
+    /**
+     * The flashes and their outbox events are already stored: drain the outbox and keep
+     * journaling only the flashes whose events are still unsent
+     */
+    private static async retryPublish(
+        entries: JournalEntry[],
+    ): Promise<ProcessFlashesResult> {
+        const processed: ProcessFlashesResult = {
+            publishedFlashIds: [],
+            written: 0,
+            failed: 0,
+        };
+        const flashIds = [
+            ...new Set(entries.map((entry) => Number(entry.flash.flash_id))),
+        ];
+
+        let stillUnsent = entries;
+        let error = "outbox events still unsent after the retry";
+        try {
+            const drained = await outboxRelay.drain();
+            const unsent = new Set(
+                await new OutboxDb().getPendingFlashIds(flashIds),
+            );
+            const sent = new Set(drained.sentFlashIds);
+
+            processed.publishedFlashIds = flashIds.filter(
+                (flashId) => !unsent.has(flashId) && sent.has(flashId),
+            );
+            await flashJournal.ack(
+                entries.filter(
+                    (entry) => !unsent.has(Number(entry.flash.flash_id)),
+                ),
+            );
+            stillUnsent = entries.filter((entry) =>
+                unsent.has(Number(entry.flash.flash_id)),
+            );
+        } catch (retryError) {
+            console.error("[StoreFlashesCron] Publish retry failed:", retryError);
+            error = `publish-retry: ${(retryError as Error).message}`;
+        }
+
+        if (stillUnsent.length > 0) {
+            processed.failed += stillUnsent.length;
+            await flashJournal.append(
+                StoreFlashesCron.uniqueFlashes(stillUnsent),
+                { stage: "publish", error },
+                stillUnsent,
+            );
+        }
+
+        return processed;
+    }
+
+    /**
+     * A flash journaled by several failed runs is handled once
+     */
+    private static uniqueFlashes(entries: JournalEntry[]): Flash[] {
+        return [
+            ...new Map(
+                entries.map((entry) => [
+                    Number(entry.flash.flash_id),
+                    entry.flash,
+                ]),
+            ).values(),
+        ];
+    }
+
+    private static addProcessed(
+        result: StoreFlashesResult,
+        processed: ProcessFlashesResult,
+    ): void {
+        result.publishedFlashIds.push(...processed.publishedFlashIds);
+        result.counts!.written! += processed.written;
+        result.counts!.published! += processed.publishedFlashIds.length;
+        result.counts!.failed! += processed.failed;
+    }
+
+    /**
+     * `retried` are the journal entries the flashes come from: acknowledged once the flashes
+     * are stored, replaced by entries with one more attempt if they fail again. Failures are
+     * journaled with the stage they happened at, where their retry resumes.
+     */
     private static async processFlashes(
-        flattened: any[],
+        flattened: Flash[],
         context: string,
-        originalFlashes?: any,
-    ): Promise<void> {
+        originalFlashes?: FlashInvaderResponse,
+        retried: JournalEntry[] = [],
+    ): Promise<ProcessFlashesResult> {
+        const processed: ProcessFlashesResult = {
+            publishedFlashIds: [],
+            written: 0,
+            failed: 0,
+        };
+        // Journaled on an unexpected error, narrowed down once filtered
+        let flashesToProcess: Flash[] = [...flattened];
+        // Past the write, a failure only needs the publish retried
+        let stage: RetryStage = "unexpected";
+
         try {
             // Get flashcastr users to filter paris flashes
             const flashcastrUsers = await new FlashcastrUsersDb().getMany({});
@@ -148,11 +386,13 @@ export class StoreFlashesCron extends CronTask {
             flashcastrUsers.length = 0;
 
             // Filter which flashes to write to database and publish to RabbitMQ
-            let flashesToProcess: any[];
+            const withoutParisIds = new Set<number>();
+            const withParisIds = new Set<number>();
 
             if (!originalFlashes) {
                 // For retry scenarios, we don't have original flash categories, so process all
-                flashesToProcess = flattened;
+                // (copied, flattened is cleared below)
+                flashesToProcess = [...flattened];
             } else {
                 // Process without_paris flashes (no filtering) - create shallow copy to avoid memory issues
                 const withoutParisToProcess = [
@@ -162,25 +402,32 @@ export class StoreFlashesCron extends CronTask {
                 // Process with_paris flashes (only flashcastr users) - filter in-place for memory efficiency
                 const withParisToProcess = (
                     originalFlashes.with_paris || []
-                ).filter((flash: any) =>
+                ).filter((flash) =>
                     flashcastrUsernames.has(flash.player.toLowerCase()),
                 );
 
+                withoutParisToProcess.forEach((f) =>
+                    withoutParisIds.add(f.flash_id),
+                );
+                withParisToProcess.forEach((f) => withParisIds.add(f.flash_id));
+
                 flashesToProcess = [
                     ...withoutParisToProcess,
                     ...withParisToProcess,
                 ];
 
                 // Clear original arrays to free memory
-                originalFlashes.without_paris = null;
-                originalFlashes.with_paris = null;
+                originalFlashes.without_paris = [];
+                originalFlashes.with_paris = [];
             }
 
             // Clear flattened array reference to free memory
             flattened.length = 0;
 
+            // correlation_id of the messages published for this batch
+            const correlationId = randomUUID();
             console.log(
-                `[StoreFlashesCron] Processing ${flashesToProcess.length} flashes (${context})`,
+                `[StoreFlashesCron] Processing ${flashesToProcess.length} flashes (${context}, correlation ${correlationId})`,
             );
 
             // First, check which flashes already exist in DB
@@ -194,41 +441,58 @@ export class StoreFlashesCron extends CronTask {
             // Clear flashIds array to free memory
             flashIds.length = 0;
 
-            // Database write with error handling and persistence
-            let writtenDocuments: any[] = [];
+            // Existing flashes the image processor hasn't pinned yet are published again,
+            // unless their image permanently failed or they are quarantined
+            const republishableIds = new Set(
+                await flashQuarantine.withoutQuarantined(
+                    await flashProcessing.withoutPermanentFailures(
+                        existingFlashes
+                            .filter((flash) => !flash.ipfs_cid || flash.ipfs_cid.trim() === "")
+                            .map((flash) => Number(flash.flash_id)),
+                    ),
+                ),
+            );
+            const existingFlashesWithoutIpfs = existingFlashes.filter((flash) =>
+                republishableIds.has(Number(flash.flash_id)),
+            );
+
+            // Database write with error handling and persistence. The outbox events for
+            // OutboxRelay are committed in the same transaction as the flashes.
+            let writtenDocuments: Flash[] = [];
             try {
                 writtenDocuments = await new PostgresFlashesDb().writeMany(
                     flashesToProcess,
+                    {
+                        republish: existingFlashesWithoutIpfs,
+                        correlationId,
+                        // Flashcastr users' flashes gate auto-casts, so they skip the bulk queue
+                        priorityOf: (flash) =>
+                            flashcastrUsernames.has(flash.player.toLowerCase())
+                                ? "high"
+                                : "low",
+                    },
                 );
                 console.log(
                     `[StoreFlashesCron] Successfully wrote ${writtenDocuments.length} documents to database`,
                 );
                 flashesNewTotal.inc(writtenDocuments.length);
+                processed.written = writtenDocuments.length;
             } catch (dbError) {
-                console.error(
-                    `[StoreFlashesCron] Database write failed (${context}):`,
-                    dbError,
-                );
-
-                // Persist failed flashes to disk for retry
-                await StoreFlashesCron.diskPersistence.persistFailedFlashes(
-                    flashesToProcess,
-                    `database-write-failure-${context}: ${(dbError as Error).message}`,
-                );
-
-                // Don't proceed to RabbitMQ if database write failed
-                return;
+                // Journaled below; nothing was enqueued for RabbitMQ either
+                stage = "db_write";
+                throw dbError;
             }
 
-            // Flashes to publish: newly written + existing ones without ipfs_cid
-            const newlyWrittenFlashes = flashesToProcess.filter((flash) => {
-                return writtenDocuments.some(
-                    (doc) => Number(doc.flash_id) === flash.flash_id,
-                );
-            });
+            // The flashes are durable now; the outbox holds whatever isn't published yet
+            stage = "publish";
+            await flashJournal.ack(retried);
 
-            const existingFlashesWithoutIpfs = existingFlashes.filter(
-                (flash) => !flash.ipfs_cid || flash.ipfs_cid.trim() === "",
+            // Flashes enqueued for publishing: newly written + existing ones without ipfs_cid
+            const writtenFlashIds = new Set(
+                writtenDocuments.map((doc) => Number(doc.flash_id)),
+            );
+            const newlyWrittenFlashes = flashesToProcess.filter((flash) =>
+                writtenFlashIds.has(flash.flash_id),
             );
 
             const flashesToPublish = [
@@ -240,71 +504,31 @@ export class StoreFlashesCron extends CronTask {
                 console.log(
                     `[StoreFlashesCron] No flashes to publish to RabbitMQ (${context})`,
                 );
-                return;
-            }
-
-            // RabbitMQ publishing with error handling and persistence
-            const rabbit = new RabbitImagePush();
-            const failedPublishes: any[] = [];
-            let publishCount = 0;
-
-            // Process in smaller batches to reduce memory usage
-            const batchSize = parseInt(process.env.RABBITMQ_BATCH_SIZE || "50");
-            for (let i = 0; i < flashesToPublish.length; i += batchSize) {
-                const batch = flashesToPublish.slice(i, i + batchSize);
-
-                // Process batch in parallel but with concurrency limit
-                const concurrencyLimit = parseInt(
-                    process.env.RABBITMQ_CONCURRENCY || "5",
-                );
-                for (let j = 0; j < batch.length; j += concurrencyLimit) {
-                    const concurrentBatch = batch.slice(
-                        j,
-                        j + concurrencyLimit,
-                    );
-
-                    await Promise.allSettled(
-                        concurrentBatch.map(async (flash) => {
-                            try {
-                                await rabbit.publish(flash);
-                                publishCount++;
-                            } catch (rabbitError) {
-                                console.error(
-                                    `[StoreFlashesCron] Failed to publish flash ${flash.flash_id} to RabbitMQ:`,
-                                    rabbitError,
-                                );
-                                failedPublishes.push(flash);
-                            }
-                        }),
-                    );
-                }
-
-                // Small delay between batches to prevent overwhelming RabbitMQ
-                if (i + batchSize < flashesToPublish.length) {
-                    await new Promise((resolve) => setTimeout(resolve, 100));
-                }
+                return processed;
             }
 
-            // Persist any failed RabbitMQ publishes to disk
-            if (failedPublishes.length > 0) {
-                await StoreFlashesCron.diskPersistence.persistFailedFlashes(
-                    failedPublishes,
-                    `rabbitmq-publish-failure-${context}`,
+            // Publish right away rather than waiting for the relay's next poll. Events that
+            // fail stay in the outbox and are retried by the relay with backoff.
+            const drained = await outboxRelay.drain();
+            const sentFlashIds = new Set(drained.sentFlashIds);
+            processed.publishedFlashIds = flashesToPublish
+                .map((flash) => Number(flash.flash_id))
+                .filter((flashId) => sentFlashIds.has(flashId));
+            const publishCount = processed.publishedFlashIds.length;
+
+            if (publishCount < flashesToPublish.length) {
+                console.warn(
+                    `[StoreFlashesCron] ${flashesToPublish.length - publishCount} flashes left in the outbox for the relay (${context})`,
                 );
             }
 
             // Logging for successful operations
             if (originalFlashes) {
                 const newWithoutParisCount = flashesToPublish.filter((f) =>
-                    originalFlashes.without_paris?.some(
-                        (wp: any) => wp.flash_id === f.flash_id,
-                    ),
+                    withoutParisIds.has(Number(f.flash_id)),
                 ).length;
                 const newWithParisFromFlashcastrCount = flashesToPublish.filter(
-                    (f) =>
-                        originalFlashes.with_paris?.some(
-                            (wp: any) => wp.flash_id === f.flash_id,
-                        ) && flashcastrUsernames.has(f.player.toLowerCase()),
+                    (f) => withParisIds.has(Number(f.flash_id)),
                 ).length;
 
                 console.log(
@@ -317,38 +541,67 @@ export class StoreFlashesCron extends CronTask {
                     `[StoreFlashesCron] ${flattened.length} flashes. ${publishCount} new events published. ${writtenDocuments.length} new documents. ${formattedCurrentTime()}`,
                 );
             }
+        } catch (error) {
+            const failure = {
+                db_write: "database-write-failure",
+                publish: "publish-failure",
+                unexpected: "unexpected-error",
+            }[stage];
+            console.error(
+                `[StoreFlashesCron] Processing flashes failed at ${stage} (${context}):`,
+                error,
+            );
 
-            // Clear successfully processed failed flashes if this was a retry
-            if (context === "retry-failed-flashes" && publishCount > 0) {
-                await StoreFlashesCron.diskPersistence.clearFailedFlashes();
-            }
+            // Journal the flashes for a retry from the stage that failed. If that fails too it
+            // throws, so the run fails before the feed cursor moves past flashes stored nowhere.
+            processed.failed += flashesToProcess.length;
+            await flashJournal.append(
+                flashesToProcess,
+                {
+                    stage,
+                    error: `${failure}-${context}: ${(error as Error).message}`,
+                },
+                retried,
+            );
+        }
+
+        return processed;
+    }
+
+    /**
+     * Log malformed API items and keep them for `yarn invaders malformed`; failing to store
+     * them doesn't fail the run, the log still has them
+     */
+    private static async recordQuarantinedFlashes(
+        quarantined: QuarantinedFlash[],
+    ): Promise<void> {
+        console.warn(
+            `[StoreFlashesCron] ${quarantined.length} malformed flashes quarantined from API response`,
+        );
+        try {
+            await new MalformedFlashStore().record(quarantined);
         } catch (error) {
             console.error(
-                `[StoreFlashesCron] Unexpected error processing flashes (${context}):`,
+                "[StoreFlashesCron] Failed to store malformed flashes:",
                 error,
             );
+        }
 
-            // Persist all flashes to disk if we hit an unexpected error
-            await StoreFlashesCron.diskPersistence.persistFailedFlashes(
-                flattened,
-                `unexpected-error-${context}: ${(error as Error).message}`,
+        for (const { collection, index, item, diagnostics } of quarantined) {
+            const flashId =
+                typeof item === "object" && item !== null
+                    ? (item as { flash_id?: unknown }).flash_id
+                    : undefined;
+            console.warn(
+                `[StoreFlashesCron] Quarantined ${collection}[${index}] (flash_id: ${flashId ?? "unknown"}): ${diagnostics
+                    .map((d) => `${d.path} ${d.code}, expected ${d.expected}, got ${d.received}`)
+                    .join("; ")}`,
             );
         }
     }
 
-    private static async getFlashesByIds(flashIds: number[]): Promise<any[]> {
+    private static async getFlashesByIds(flashIds: number[]): Promise<Flash[]> {
         const flashesDb = new PostgresFlashesDb();
         return await flashesDb.getByIds(flashIds);
     }
-
-    private static isPeakFlashTime(): boolean {
-        // Peak flash times: European daytime (6 AM - 11 PM CET/CEST)
-        // CET is UTC+1, CEST is UTC+2. Using UTC+1 as baseline.
-        const now = new Date();
-        const cetHour = (now.getUTCHours() + 1) % 24;
-
-        // Peak hours: 6 AM to 11 PM CET (18 hours)
-        // Off-peak: 11 PM to 6 AM CET (7 hours)
-        return cetHour >= 6 && cetHour < 23;
-    }
 }
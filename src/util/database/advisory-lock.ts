@@ -0,0 +1,36 @@
+import { Pool } from "pg";
+
+export type AdvisoryLockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Run `fn` while holding a session-level Postgres advisory lock on `key`, so only
+ * one instance across deployments runs it. Does not wait: if another session holds
+ * the lock, returns { acquired: false } without calling `fn`.
+ */
+export async function withAdvisoryLock<T>(pool: Pool, key: string, fn: () => Promise<T>): Promise<AdvisoryLockResult<T>> {
+  // Session-level locks belong to a connection, so lock and unlock on the same client
+  const client = await pool.connect();
+  // Set when the lock may still be held: the connection is destroyed, which releases it
+  let unlockError: Error | undefined;
+
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(`SELECT pg_try_advisory_lock(hashtext($1)) AS locked`, [key]);
+    if (!rows[0]?.locked) {
+      return { acquired: false };
+    }
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      try {
+        await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [key]);
+      } catch (error) {
+        // Don't hide the task's own result or error behind the unlock's
+        console.error(`[AdvisoryLock] Failed to unlock ${key}, closing the connection instead:`, error);
+        unlockError = error as Error;
+      }
+    }
+  } finally {
+    client.release(unlockError);
+  }
+}
@@ -0,0 +1,144 @@
+import { Postgres } from "../postgres";
+import pool from "../postgresClient";
+import { FlashProcessing, FlashProcessingStatus } from "./types";
+
+export class FlashProcessingDb extends Postgres<FlashProcessing> {
+  constructor() {
+    super(pool);
+  }
+
+  /**
+   * Count a publish to the image processor. Permanently failed flashes keep their status,
+   * so an explicit republish (e.g. force-sync) doesn't bring them back.
+   */
+  async recordPublished(flashIds: number[]): Promise<void> {
+    if (flashIds.length === 0) return;
+
+    const sql = `
+      INSERT INTO flash_processing (flash_id, status, attempts, last_published_at)
+      SELECT flash_id, 'pending', COUNT(*), NOW() FROM UNNEST($1::bigint[]) AS flash_id GROUP BY flash_id
+      ON CONFLICT (flash_id) DO UPDATE SET
+        attempts = flash_processing.attempts + EXCLUDED.attempts,
+        last_published_at = NOW(),
+        status = CASE WHEN flash_processing.status = 'permanently_failed' THEN flash_processing.status ELSE 'pending' END,
+        updated_at = NOW()
+    `;
+
+    await this.query(sql, [flashIds]);
+  }
+
+  /**
+   * Record the pinned image and fill in flashes.ipfs_cid if the image processor hasn't already
+   */
+  async recordPinned(flashId: number, ipfsCid: string): Promise<void> {
+    await this.transaction(async (client) => {
+      await this.query(
+        `
+          INSERT INTO flash_processing (flash_id, status, ipfs_cid, last_error, last_result_at)
+          VALUES ($1, 'pinned', $2, NULL, NOW())
+          ON CONFLICT (flash_id) DO UPDATE SET
+            status = 'pinned', ipfs_cid = $2, last_error = NULL, last_result_at = NOW(), updated_at = NOW()
+        `,
+        [flashId, ipfsCid],
+        client,
+      );
+      await this.query(
+        `UPDATE flashes SET ipfs_cid = $2 WHERE flash_id = $1 AND (ipfs_cid IS NULL OR ipfs_cid = '')`,
+        [flashId, ipfsCid],
+        client,
+      );
+    });
+  }
+
+  /**
+   * Record a failed attempt. The flash becomes permanently_failed when the failure is
+   * permanent or it has failed `maxFailures` times; a pinned flash stays pinned.
+   */
+  async recordFailure(
+    flashId: number,
+    error: string,
+    permanent: boolean,
+    maxFailures: number,
+  ): Promise<{ status: FlashProcessingStatus; failures: number }> {
+    const sql = `
+      INSERT INTO flash_processing (flash_id, status, failures, last_error, last_result_at)
+      VALUES ($1, CASE WHEN $3 OR $4 <= 1 THEN 'permanently_failed' ELSE 'failed' END, 1, $2, NOW())
+      ON CONFLICT (flash_id) DO UPDATE SET
+        failures = flash_processing.failures + 1,
+        last_error = $2,
+        last_result_at = NOW(),
+        status = CASE
+          WHEN flash_processing.status = 'pinned' THEN 'pinned'
+          WHEN $3 OR flash_processing.failures + 1 >= $4 THEN 'permanently_failed'
+          ELSE 'failed'
+        END,
+        updated_at = NOW()
+      RETURNING status, failures
+    `;
+
+    const row = await this.queryOne<{ status: FlashProcessingStatus; failures: number }>(sql, [flashId, error, permanent, maxFailures]);
+    return row!;
+  }
+
+  /**
+   * Give requeued flashes a fresh start: failed ones go back to pending with no failures
+   */
+  async resetFailures(flashIds: number[]): Promise<void> {
+    if (flashIds.length === 0) return;
+
+    await this.query(
+      `
+        UPDATE flash_processing SET status = 'pending', failures = 0, last_error = NULL, updated_at = NOW()
+        WHERE flash_id = ANY($1) AND status IN ('failed', 'permanently_failed')
+      `,
+      [flashIds],
+    );
+  }
+
+  /**
+   * Stop publishing flashes for good (e.g. discarded from quarantine); pinned flashes are left alone
+   */
+  async markPermanentlyFailed(flashIds: number[], error: string): Promise<void> {
+    if (flashIds.length === 0) return;
+
+    const sql = `
+      INSERT INTO flash_processing (flash_id, status, last_error)
+      SELECT flash_id, 'permanently_failed', $2 FROM UNNEST($1::bigint[]) AS flash_id GROUP BY flash_id
+      ON CONFLICT (flash_id) DO UPDATE SET
+        status = CASE WHEN flash_processing.status = 'pinned' THEN 'pinned' ELSE 'permanently_failed' END,
+        last_error = CASE WHEN flash_processing.status = 'pinned' THEN flash_processing.last_error ELSE $2 END,
+        updated_at = NOW()
+    `;
+
+    await this.query(sql, [flashIds, error]);
+  }
+
+  async get(flashId: number): Promise<FlashProcessing | null> {
+    return await this.queryOne(`SELECT * FROM flash_processing WHERE flash_id = $1`, [flashId]);
+  }
+
+  /**
+   * Subset of `flashIds` whose image permanently failed
+   */
+  async getPermanentlyFailedIds(flashIds: number[]): Promise<number[]> {
+    if (flashIds.length === 0) return [];
+
+    const rows = await this.query<{ flash_id: string }>(
+      `SELECT flash_id FROM flash_processing WHERE flash_id = ANY($1) AND status = 'permanently_failed'`,
+      [flashIds],
+    );
+    return rows.map((row) => Number(row.flash_id));
+  }
+
+  async countByStatus(): Promise<Record<FlashProcessingStatus, number>> {
+    const rows = await this.query<{ status: FlashProcessingStatus; count: string }>(
+      `SELECT status, COUNT(*) AS count FROM flash_processing GROUP BY status`,
+    );
+
+    const counts: Record<FlashProcessingStatus, number> = { pending: 0, pinned: 0, failed: 0, permanently_failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+}
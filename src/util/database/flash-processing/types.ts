@@ -0,0 +1,13 @@
+export type FlashProcessingStatus = "pending" | "pinned" | "failed" | "permanently_failed";
+
+export interface FlashProcessing {
+  flash_id: number;
+  status: FlashProcessingStatus;
+  attempts: number;
+  failures: number;
+  last_error: string | null;
+  ipfs_cid: string | null;
+  last_published_at: Date | null;
+  last_result_at: Date | null;
+  updated_at: Date;
+}
@@ -1,6 +1,19 @@
+import { PoolClient } from "pg";
 import { Postgres } from "../postgres";
 import pool from "../postgresClient";
-import { Flash } from "./types";
+import { OutboxDb } from "../outbox";
+import { createFlashImageMessage } from "../../rabbitmq/envelope";
+import { Flash, FlashArrivalRate, FlashBackfillFilter, FlashOutboxOptions } from "./types";
+
+// See flash_processing: the image processor gave up on these flashes
+const NOT_PERMANENTLY_FAILED = `NOT EXISTS (
+  SELECT 1 FROM flash_processing p WHERE p.flash_id = flashes.flash_id AND p.status = 'permanently_failed'
+)`;
+
+// See quarantined_flashes: not published until requeued
+const NOT_QUARANTINED = `NOT EXISTS (
+  SELECT 1 FROM quarantined_flashes q WHERE q.flash_id = flashes.flash_id
+)`;
 
 export class PostgresFlashesDb extends Postgres<Flash> {
   constructor() {
@@ -41,8 +54,92 @@ export class PostgresFlashesDb extends Postgres<Flash> {
     return await this.query(sql, flashIds);
   }
 
-  async writeMany(flashes: Flash[]): Promise<Flash[]> {
-    if (!flashes.length) return [];
+  /**
+   * Subset of `flashIds` that exist and have no ipfs_cid yet, leaving out flashes whose
+   * image permanently failed (they never get one) and quarantined flashes
+   */
+  async getIdsWithoutIpfs(flashIds: number[]): Promise<number[]> {
+    if (flashIds.length === 0) return [];
+
+    const sql = `
+      SELECT flash_id FROM flashes
+      WHERE flash_id = ANY($1) AND (ipfs_cid IS NULL OR ipfs_cid = '') AND ${NOT_PERMANENTLY_FAILED} AND ${NOT_QUARANTINED}
+    `;
+
+    const rows = await this.query<{ flash_id: string | number }>(sql, [flashIds]);
+    return rows.map((row) => Number(row.flash_id));
+  }
+
+  /**
+   * One keyset page of flashes matching `filter` with flash_id > `afterFlashId`, in flash_id order
+   */
+  async getBackfillPage(filter: FlashBackfillFilter, afterFlashId: number, limit: number): Promise<Flash[]> {
+    const { where, params } = this.backfillWhere(filter, afterFlashId);
+    const sql = `
+      SELECT * FROM flashes
+      WHERE ${where}
+      ORDER BY flash_id ASC
+      LIMIT $${params.length + 1}
+    `;
+
+    return await this.query(sql, [...params, limit]);
+  }
+
+  async countBackfill(filter: FlashBackfillFilter, afterFlashId: number): Promise<number> {
+    const { where, params } = this.backfillWhere(filter, afterFlashId);
+    const row = await this.queryOne<{ count: string }>(`SELECT COUNT(*) AS count FROM flashes WHERE ${where}`, params);
+    return Number(row?.count ?? 0);
+  }
+
+  private backfillWhere(filter: FlashBackfillFilter, afterFlashId: number): { where: string; params: unknown[] } {
+    const conditions = ["flash_id > $1"];
+    const params: unknown[] = [afterFlashId];
+
+    if (filter.since) {
+      params.push(filter.since);
+      conditions.push(`timestamp >= $${params.length}`);
+    }
+    if (filter.city) {
+      params.push(filter.city);
+      conditions.push(`city = $${params.length}`);
+    }
+    if (filter.player) {
+      params.push(filter.player.toLowerCase());
+      conditions.push(`LOWER(player) = $${params.length}`);
+    }
+    if (filter.missingIpfsOnly) {
+      conditions.push(`(ipfs_cid IS NULL OR ipfs_cid = '')`, NOT_PERMANENTLY_FAILED, NOT_QUARANTINED);
+    }
+
+    return { where: conditions.join(" AND "), params };
+  }
+
+  /**
+   * Flash counts per local weekday/hour over the last `lookbackDays`. flashes.timestamp is a
+   * timestamp without time zone holding UTC (see writeMany), so it is read as UTC first:
+   * AT TIME ZONE on a bare timestamp would convert the other way.
+   */
+  async getArrivalRates(timezone: string, lookbackDays: number): Promise<FlashArrivalRate[]> {
+    const sql = `
+      SELECT
+        EXTRACT(ISODOW FROM (timestamp AT TIME ZONE 'UTC') AT TIME ZONE $1)::int AS weekday,
+        EXTRACT(HOUR FROM (timestamp AT TIME ZONE 'UTC') AT TIME ZONE $1)::int AS hour,
+        COUNT(*)::int AS count
+      FROM flashes
+      WHERE timestamp >= (NOW() AT TIME ZONE 'UTC') - make_interval(days => $2)
+      GROUP BY 1, 2
+    `;
+
+    return await this.query<FlashArrivalRate>(sql, [timezone, lookbackDays]);
+  }
+
+  /**
+   * Insert new flashes, skipping invalid ones and ones that already exist. With `outbox`,
+   * a flash_image event for every inserted (and republished) flash is committed in the
+   * same transaction, for OutboxRelay to publish.
+   */
+  async writeMany(flashes: Flash[], outbox?: FlashOutboxOptions): Promise<Flash[]> {
+    if (!flashes.length && !outbox?.republish?.length) return [];
 
     // Validate and sanitize flashes before attempting batch insert
     const validFlashes: Flash[] = [];
@@ -73,12 +170,38 @@ export class PostgresFlashesDb extends Postgres<Flash> {
       console.error(`[PostgresFlashesDb] Validation error breakdown:`, Object.fromEntries(errorsByType));
     }
 
+    if (!outbox) {
+      return await this.insertValidated(validFlashes, flashes.length);
+    }
+
+    return await this.transaction(async (client) => {
+      const written = await this.insertValidated(validFlashes, flashes.length, client);
+      const writtenIds = new Set(written.map((flash) => Number(flash.flash_id)));
+
+      // Enqueue the validated input rather than the returned rows, which carry timestamp as a Date
+      const toPublish = [...validFlashes.filter((flash) => writtenIds.has(flash.flash_id)), ...(outbox.republish ?? [])];
+      await new OutboxDb().enqueue(
+        toPublish.map((flash) => ({
+          eventType: "flash_image",
+          flashId: Number(flash.flash_id),
+          // Built now so a republished event keeps its message_id
+          payload: createFlashImageMessage(flash, { correlationId: outbox.correlationId }),
+          priority: outbox.priorityOf?.(flash) ?? "low",
+        })),
+        client,
+      );
+
+      return written;
+    });
+  }
+
+  private async insertValidated(validFlashes: Flash[], receivedCount: number, client?: PoolClient): Promise<Flash[]> {
     if (validFlashes.length === 0) {
       console.warn(`[PostgresFlashesDb] No valid flashes to insert after validation`);
       return [];
     }
 
-    console.log(`[PostgresFlashesDb] Inserting ${validFlashes.length}/${flashes.length} validated flashes`);
+    console.log(`[PostgresFlashesDb] Inserting ${validFlashes.length}/${receivedCount} validated flashes`);
 
     // Use UNNEST for better batch insert performance
     const flashIds = validFlashes.map(f => f.flash_id);
@@ -105,7 +228,7 @@ export class PostgresFlashesDb extends Postgres<Flash> {
     const values = [flashIds, cities, players, imgs, ipfsCids, texts, timestamps, flashCounts];
 
     try {
-      const result = await this.query(sql, values);
+      const result = await this.withSavepoint(client, () => this.query(sql, values, client));
       if (result.length < validFlashes.length) {
         console.log(`[PostgresFlashesDb] ${validFlashes.length - result.length} flashes were skipped due to conflicts (already exist)`);
       }
@@ -115,7 +238,25 @@ export class PostgresFlashesDb extends Postgres<Flash> {
       
       // Fallback to individual inserts for debugging
       console.log(`[PostgresFlashesDb] Falling back to individual inserts to identify problematic records`);
-      return await this.insertIndividually(validFlashes);
+      return await this.insertIndividually(validFlashes, client);
+    }
+  }
+
+  /**
+   * Inside a transaction, a failed statement aborts everything after it; a savepoint
+   * lets the insert fail on its own so the fallback can carry on
+   */
+  private async withSavepoint<R>(client: PoolClient | undefined, fn: () => Promise<R>): Promise<R> {
+    if (!client) return await fn();
+
+    await client.query("SAVEPOINT flashes_insert");
+    try {
+      const result = await fn();
+      await client.query("RELEASE SAVEPOINT flashes_insert");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK TO SAVEPOINT flashes_insert");
+      throw error;
     }
   }
 
@@ -194,7 +335,7 @@ export class PostgresFlashesDb extends Postgres<Flash> {
     };
   }
 
-  private async insertIndividually(flashes: Flash[]): Promise<Flash[]> {
+  private async insertIndividually(flashes: Flash[], client?: PoolClient): Promise<Flash[]> {
     const successful: Flash[] = [];
     const failed: { flash: Flash, error: string }[] = [];
 
@@ -213,7 +354,7 @@ export class PostgresFlashesDb extends Postgres<Flash> {
           flash.ipfs_cid, flash.text, new Date(flash.timestamp * 1000), flash.flash_count
         ];
         
-        const result = await this.query(sql, values);
+        const result = await this.withSavepoint(client, () => this.query(sql, values, client));
         if (result.length > 0) {
           successful.push(result[0]);
         } else {
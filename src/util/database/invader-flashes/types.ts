@@ -1,3 +1,5 @@
+import { FlashPriority } from "../../rabbitmq/routing";
+
 export interface Flash {
   _id?: string;
   id?: string;
@@ -11,3 +13,29 @@ export interface Flash {
   flash_count: string;
   posted?: boolean;
 }
+
+export interface FlashArrivalRate {
+  // ISO weekday (1 = Monday ... 7 = Sunday) and hour in the queried timezone
+  weekday: number;
+  hour: number;
+  count: number;
+}
+
+export interface FlashBackfillFilter {
+  // Only flashes at or after this time
+  since?: Date;
+  city?: string;
+  // Matched case-insensitively
+  player?: string;
+  // Only flashes the image processor hasn't pinned yet
+  missingIpfsOnly?: boolean;
+}
+
+export interface FlashOutboxOptions {
+  // Stored flashes to publish again in the same transaction (e.g. still missing ipfs_cid)
+  republish?: Flash[];
+  // correlation_id of the enqueued messages
+  correlationId?: string;
+  // Routing priority per flash, low when not given
+  priorityOf?: (flash: Flash) => FlashPriority;
+}
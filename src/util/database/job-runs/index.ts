@@ -0,0 +1,103 @@
+import { Postgres } from "../postgres";
+import pool from "../postgresClient";
+import { JobRun, JobRunCompletion } from "./types";
+
+export class JobRunsDb extends Postgres<JobRun> {
+  constructor() {
+    super(pool);
+  }
+
+  async start(jobName: string, startedAt: Date): Promise<number> {
+    const row = await this.queryOne<{ id: string }>(
+      `INSERT INTO job_runs (job_name, started_at, outcome) VALUES ($1, $2, 'running') RETURNING id`,
+      [jobName, startedAt],
+    );
+    return Number(row!.id);
+  }
+
+  async finish(id: number, completion: JobRunCompletion): Promise<void> {
+    const sql = `
+      UPDATE job_runs SET
+        finished_at = $2, outcome = $3, skip_reason = $4,
+        flashes_fetched = $5, flashes_written = $6, flashes_published = $7, flashes_cast = $8, flashes_failed = $9,
+        error = $10, details = $11::jsonb
+      WHERE id = $1
+    `;
+
+    await this.query(sql, [id, ...this.completionValues(completion)]);
+  }
+
+  /**
+   * Record a run in one go, for runs that never started (skipped) or whose start insert failed
+   */
+  async insert(jobName: string, startedAt: Date, completion: JobRunCompletion): Promise<number> {
+    const sql = `
+      INSERT INTO job_runs (
+        job_name, started_at, finished_at, outcome, skip_reason,
+        flashes_fetched, flashes_written, flashes_published, flashes_cast, flashes_failed,
+        error, details
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12::jsonb)
+      RETURNING id
+    `;
+
+    const row = await this.queryOne<{ id: string }>(sql, [jobName, startedAt, ...this.completionValues(completion)]);
+    return Number(row!.id);
+  }
+
+  async getRecent(limit: number = 20, jobName?: string): Promise<JobRun[]> {
+    const sql = `
+      SELECT * FROM job_runs
+      WHERE ($2::text IS NULL OR job_name = $2)
+      ORDER BY started_at DESC
+      LIMIT $1
+    `;
+
+    return await this.query(sql, [limit, jobName ?? null]);
+  }
+
+  /**
+   * Runs that were active at any point between `from` and `to` ("what happened at 03:15")
+   */
+  async getBetween(from: Date, to: Date, jobName?: string): Promise<JobRun[]> {
+    const sql = `
+      SELECT * FROM job_runs
+      WHERE started_at <= $2
+        AND COALESCE(finished_at, NOW()) >= $1
+        AND ($3::text IS NULL OR job_name = $3)
+      ORDER BY started_at ASC
+    `;
+
+    return await this.query(sql, [from, to, jobName ?? null]);
+  }
+
+  /**
+   * Delete runs started before `cutoff`, returns how many were removed
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const sql = `
+      WITH deleted AS (
+        DELETE FROM job_runs WHERE started_at < $1 RETURNING 1
+      )
+      SELECT COUNT(*) AS count FROM deleted
+    `;
+
+    const row = await this.queryOne<{ count: string }>(sql, [cutoff]);
+    return Number(row?.count ?? 0);
+  }
+
+  private completionValues(completion: JobRunCompletion): unknown[] {
+    return [
+      completion.finishedAt,
+      completion.outcome,
+      completion.skipReason ?? null,
+      completion.counts.fetched,
+      completion.counts.written,
+      completion.counts.published,
+      completion.counts.cast,
+      completion.counts.failed,
+      completion.error ?? null,
+      completion.details ? JSON.stringify(completion.details) : null,
+    ];
+  }
+}
@@ -0,0 +1,34 @@
+export type JobRunOutcome = "running" | "success" | "skipped" | "failed";
+
+export interface JobRunCounts {
+  fetched: number;
+  written: number;
+  published: number;
+  cast: number;
+  failed: number;
+}
+
+export interface JobRun {
+  id: number;
+  job_name: string;
+  started_at: Date;
+  finished_at: Date | null;
+  outcome: JobRunOutcome;
+  skip_reason: string | null;
+  flashes_fetched: number;
+  flashes_written: number;
+  flashes_published: number;
+  flashes_cast: number;
+  flashes_failed: number;
+  error: string | null;
+  details: Record<string, unknown> | null;
+}
+
+export interface JobRunCompletion {
+  finishedAt: Date;
+  outcome: Exclude<JobRunOutcome, "running">;
+  skipReason?: string;
+  counts: JobRunCounts;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,186 @@
+import { PoolClient } from "pg";
+import { Postgres } from "../postgres";
+import pool from "../postgresClient";
+import { QuarantineDb } from "../quarantine";
+import { NewQuarantineEntry } from "../quarantine/types";
+import { NewOutboxEvent, OutboxDelivery, OutboxEvent } from "./types";
+
+export class OutboxDb extends Postgres<OutboxEvent> {
+  constructor() {
+    super(pool);
+  }
+
+  /**
+   * Add events; pass the client of an open transaction to commit them together with the data they describe
+   */
+  async enqueue(events: NewOutboxEvent[], client?: PoolClient): Promise<number> {
+    if (events.length === 0) return 0;
+
+    const sql = `
+      INSERT INTO outbox (event_type, flash_id, payload, priority)
+      SELECT * FROM UNNEST($1::text[], $2::bigint[], $3::jsonb[], $4::text[])
+    `;
+
+    await this.query(
+      sql,
+      [
+        events.map((e) => e.eventType),
+        events.map((e) => e.flashId ?? null),
+        events.map((e) => JSON.stringify(e.payload)),
+        events.map((e) => e.priority ?? "low"),
+      ],
+      client,
+    );
+    return events.length;
+  }
+
+  /**
+   * Claim up to `limit` due events, high priority first, let `deliver` publish them, then
+   * record the outcome. The rows are leased for `leaseMs` by a single short statement and
+   * the outcome is written in a second short transaction, so no transaction, row lock or
+   * pooled connection is held while the broker is slow to confirm. A relay that dies
+   * mid-publish leaves its lease to expire, after which the events are claimed again.
+   * Failures flagged `quarantine` are moved to quarantined_flashes.
+   */
+  async deliverBatch(
+    limit: number,
+    leaseMs: number,
+    deliver: (events: OutboxEvent[]) => Promise<OutboxDelivery>,
+  ): Promise<OutboxDelivery & { claimed: number }> {
+    const claimed = await this.claim(limit, leaseMs);
+    if (claimed.length === 0) return { claimed: 0, sent: [], failed: [] };
+
+    let delivery: OutboxDelivery;
+    try {
+      delivery = await deliver(claimed);
+    } catch (error) {
+      await this.query(`UPDATE outbox SET locked_until = NULL WHERE id = ANY($1)`, [claimed.map((e) => e.id)]);
+      throw error;
+    }
+
+    await this.transaction(async (client) => {
+      if (delivery.sent.length > 0) {
+        await this.query(
+          `UPDATE outbox SET sent_at = NOW(), attempts = attempts + 1, last_error = NULL, locked_until = NULL WHERE id = ANY($1)`,
+          [delivery.sent],
+          client,
+        );
+      }
+      for (const failure of delivery.failed) {
+        if (failure.quarantine) continue;
+        await this.query(
+          `UPDATE outbox SET attempts = attempts + 1, last_error = $2, next_attempt_at = $3, locked_until = NULL WHERE id = $1`,
+          [failure.id, failure.error, failure.nextAttemptAt],
+          client,
+        );
+      }
+
+      await this.quarantine(claimed, delivery, client);
+    });
+
+    return { claimed: claimed.length, ...delivery };
+  }
+
+  /**
+   * Lease due events that no other relay holds (SKIP LOCKED skips rows being claimed right now)
+   */
+  private async claim(limit: number, leaseMs: number): Promise<OutboxEvent[]> {
+    const events = await this.query(
+      `
+        UPDATE outbox SET locked_until = NOW() + $2::int * INTERVAL '1 millisecond'
+        WHERE id IN (
+          SELECT id FROM outbox
+          WHERE sent_at IS NULL AND next_attempt_at <= NOW() AND (locked_until IS NULL OR locked_until <= NOW())
+          ORDER BY priority = 'high' DESC, id
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `,
+      [limit, leaseMs],
+    );
+
+    // RETURNING doesn't keep the subquery's order
+    return events
+      .map((e) => ({ ...e, id: Number(e.id), flash_id: e.flash_id === null ? null : Number(e.flash_id) }))
+      .sort((a, b) => Number(b.priority === "high") - Number(a.priority === "high") || a.id - b.id);
+  }
+
+  private async quarantine(events: OutboxEvent[], delivery: OutboxDelivery, client: PoolClient): Promise<void> {
+    const failures = new Map(delivery.failed.filter((f) => f.quarantine).map((f) => [f.id, f]));
+    if (failures.size === 0) return;
+
+    const quarantined = events.filter((e) => failures.has(e.id));
+    await new QuarantineDb().add(
+      quarantined
+        .filter((e) => e.flash_id !== null)
+        .map((e) => ({
+          flashId: e.flash_id!,
+          reason: "publish_failed",
+          attempts: e.attempts + 1,
+          error: failures.get(e.id)!.error,
+          details: {
+            outbox_event_id: e.id,
+            event_type: e.event_type,
+            priority: e.priority,
+            message_id: (e.payload as { message_id?: string } | null)?.message_id ?? null,
+          },
+        })),
+      client,
+    );
+    await this.query(`DELETE FROM outbox WHERE id = ANY($1)`, [[...failures.keys()]], client);
+  }
+
+  /**
+   * Quarantine flashes and delete their unsent events in one transaction, so the relay
+   * doesn't keep publishing them. Returns how many events were deleted.
+   */
+  async quarantineUnsent(entries: NewQuarantineEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    return this.transaction(async (client) => {
+      await new QuarantineDb().add(entries, client);
+      const deleted = await this.query<{ id: string }>(
+        `DELETE FROM outbox WHERE flash_id = ANY($1) AND sent_at IS NULL RETURNING id`,
+        [entries.map((entry) => entry.flashId)],
+        client,
+      );
+      return deleted.length;
+    });
+  }
+
+  /**
+   * Subset of `flashIds` with an event that isn't sent yet
+   */
+  async getPendingFlashIds(flashIds: number[]): Promise<number[]> {
+    if (flashIds.length === 0) return [];
+
+    const rows = await this.query<{ flash_id: string }>(
+      `SELECT DISTINCT flash_id FROM outbox WHERE flash_id = ANY($1) AND sent_at IS NULL`,
+      [flashIds],
+    );
+    return rows.map((row) => Number(row.flash_id));
+  }
+
+  async getPendingStats(): Promise<{ pending: number; oldestCreatedAt: Date | null }> {
+    const row = await this.queryOne<{ pending: string; oldest: Date | null }>(
+      `SELECT COUNT(*) AS pending, MIN(created_at) AS oldest FROM outbox WHERE sent_at IS NULL`,
+    );
+    return { pending: Number(row?.pending ?? 0), oldestCreatedAt: row?.oldest ?? null };
+  }
+
+  /**
+   * Delete events sent before `cutoff`, returns how many were removed
+   */
+  async deleteSentBefore(cutoff: Date): Promise<number> {
+    const sql = `
+      WITH deleted AS (
+        DELETE FROM outbox WHERE sent_at IS NOT NULL AND sent_at < $1 RETURNING 1
+      )
+      SELECT COUNT(*) AS count FROM deleted
+    `;
+
+    const row = await this.queryOne<{ count: string }>(sql, [cutoff]);
+    return Number(row?.count ?? 0);
+  }
+}
@@ -0,0 +1,98 @@
+import pool from "../postgresClient";
+import { QuarantineDb } from "../quarantine";
+import { OutboxDb } from ".";
+import { OutboxDelivery, OutboxEvent } from "./types";
+
+jest.mock("../postgresClient", () => ({ __esModule: true, default: { query: jest.fn(), connect: jest.fn() } }));
+jest.mock("../quarantine", () => ({ QuarantineDb: jest.fn() }));
+
+const mockPool = pool as unknown as { query: jest.Mock; connect: jest.Mock };
+
+function row(id: number, priority: "high" | "low" = "low", attempts: number = 0) {
+  return { id: String(id), event_type: "flash_image", flash_id: String(100 + id), payload: { message_id: `m${id}` }, priority, attempts };
+}
+
+describe("OutboxDb.deliverBatch", () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+  let quarantineAdd: jest.Mock;
+
+  beforeEach(() => {
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+    mockPool.connect.mockResolvedValue(client);
+    mockPool.query.mockResolvedValue({ rows: [] });
+    quarantineAdd = jest.fn().mockResolvedValue(undefined);
+    (QuarantineDb as unknown as jest.Mock).mockImplementation(() => ({ add: quarantineAdd }));
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("leases the due events, publishes outside a transaction and records the outcome after", async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [row(3), row(2, "high"), row(1)] });
+    const deliver = jest.fn(async (_events: OutboxEvent[]): Promise<OutboxDelivery> => {
+      // Nothing held open while the broker confirms
+      expect(mockPool.connect).not.toHaveBeenCalled();
+      return { sent: [2, 1], failed: [{ id: 3, error: "nack", nextAttemptAt: new Date(0) }] };
+    });
+
+    const delivery = await new OutboxDb().deliverBatch(10, 60_000, deliver);
+
+    const [claimSql, claimParams] = mockPool.query.mock.calls[0];
+    expect(claimSql).toContain("SET locked_until = NOW() +");
+    expect(claimSql).toContain("locked_until IS NULL OR locked_until <= NOW()");
+    expect(claimSql).toContain("FOR UPDATE SKIP LOCKED");
+    expect(claimParams).toEqual([10, 60_000]);
+    expect(deliver.mock.calls[0][0].map((e) => e.id)).toEqual([2, 1, 3]);
+
+    expect(client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 2).join(" "))).toEqual([
+      "BEGIN",
+      "UPDATE outbox",
+      "UPDATE outbox",
+      "COMMIT",
+    ]);
+    expect(client.query.mock.calls[1]).toEqual([expect.stringContaining("sent_at = NOW()"), [[2, 1]]]);
+    expect(client.query.mock.calls[2]).toEqual([expect.stringContaining("locked_until = NULL"), [3, "nack", new Date(0)]]);
+    expect(client.release).toHaveBeenCalled();
+    expect(delivery).toMatchObject({ claimed: 3, sent: [2, 1] });
+  });
+
+  it("doesn't call deliver when nothing is due", async () => {
+    const deliver = jest.fn();
+
+    expect(await new OutboxDb().deliverBatch(10, 60_000, deliver)).toEqual({ claimed: 0, sent: [], failed: [] });
+    expect(deliver).not.toHaveBeenCalled();
+    expect(mockPool.connect).not.toHaveBeenCalled();
+  });
+
+  it("releases the lease when deliver throws", async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [row(1), row(2)] });
+
+    await expect(new OutboxDb().deliverBatch(10, 60_000, () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+
+    expect(mockPool.query).toHaveBeenLastCalledWith(expect.stringContaining("SET locked_until = NULL"), [[1, 2]]);
+    expect(mockPool.connect).not.toHaveBeenCalled();
+  });
+
+  it("moves failures out of attempts to quarantined_flashes", async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [row(1, "high", 19)] });
+
+    await new OutboxDb().deliverBatch(10, 60_000, async () => ({
+      sent: [],
+      failed: [{ id: 1, error: "nack", nextAttemptAt: new Date(0), quarantine: true }],
+    }));
+
+    expect(quarantineAdd).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          flashId: 101,
+          reason: "publish_failed",
+          attempts: 20,
+          details: expect.objectContaining({ outbox_event_id: 1, message_id: "m1" }),
+        }),
+      ],
+      client,
+    );
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining("DELETE FROM outbox"), [[1]]);
+  });
+});
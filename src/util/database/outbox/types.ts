@@ -0,0 +1,32 @@
+import { FlashPriority } from "../../rabbitmq/routing";
+
+export type OutboxEventType = "flash_image";
+
+export interface OutboxEvent<T = unknown> {
+  id: number;
+  event_type: OutboxEventType;
+  flash_id: number | null;
+  payload: T;
+  priority: FlashPriority;
+  created_at: Date;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  sent_at: Date | null;
+  // Lease of the relay publishing the event
+  locked_until: Date | null;
+}
+
+export interface NewOutboxEvent<T = unknown> {
+  eventType: OutboxEventType;
+  flashId?: number;
+  payload: T;
+  // Defaults to low
+  priority?: FlashPriority;
+}
+
+export interface OutboxDelivery {
+  sent: number[];
+  // quarantine: out of attempts, the event moves to quarantined_flashes instead of being retried
+  failed: { id: number; error: string; nextAttemptAt: Date; quarantine?: boolean }[];
+}
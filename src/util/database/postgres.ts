@@ -1,16 +1,41 @@
 // lib/postgres.ts
-import { Pool } from "pg";
+import { Pool, PoolClient } from "pg";
 
 export abstract class Postgres<T = unknown> {
   constructor(protected pool: Pool) {}
 
-  protected async query<R = T>(sql: string, values: any[] = []): Promise<R[]> {
-    const res = await this.pool.query(sql, values);
+  /**
+   * Pass `client` to run the query inside a transaction started with transaction()
+   */
+  protected async query<R = T>(sql: string, values: any[] = [], client?: PoolClient): Promise<R[]> {
+    const res = await (client ?? this.pool).query(sql, values);
     return res.rows;
   }
 
-  protected async queryOne<R = T>(sql: string, values: any[] = []): Promise<R | null> {
-    const res = await this.pool.query(sql, values);
+  protected async queryOne<R = T>(sql: string, values: any[] = [], client?: PoolClient): Promise<R | null> {
+    const res = await (client ?? this.pool).query(sql, values);
     return res.rows[0] ?? null;
   }
+
+  /**
+   * Run `fn` in a transaction on a dedicated client: committed if it resolves, rolled back if it throws
+   */
+  protected async transaction<R>(fn: (client: PoolClient) => Promise<R>): Promise<R> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("[Postgres] Rollback failed:", rollbackError);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 }
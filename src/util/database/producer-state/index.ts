@@ -0,0 +1,28 @@
+import { Postgres } from "../postgres";
+import pool from "../postgresClient";
+import { ProducerStateRow } from "./types";
+
+export class ProducerStateDb extends Postgres<ProducerStateRow> {
+  constructor() {
+    super(pool);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const row = await this.queryOne<ProducerStateRow<T>>(`SELECT * FROM producer_state WHERE key = $1`, [key]);
+    return row ? row.value : null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const sql = `
+      INSERT INTO producer_state (key, value, updated_at)
+      VALUES ($1, $2::jsonb, NOW())
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()
+    `;
+
+    await this.query(sql, [key, JSON.stringify(value)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.query(`DELETE FROM producer_state WHERE key = $1`, [key]);
+  }
+}
@@ -0,0 +1,5 @@
+export interface ProducerStateRow<T = unknown> {
+  key: string;
+  value: T;
+  updated_at: Date;
+}
@@ -0,0 +1,115 @@
+import { PoolClient } from "pg";
+import { Postgres } from "../postgres";
+import pool from "../postgresClient";
+import { NewQuarantineEntry, QuarantineEntry, QuarantineFilter, QuarantineReason } from "./types";
+
+export class QuarantineDb extends Postgres<QuarantineEntry> {
+  constructor() {
+    super(pool);
+  }
+
+  /**
+   * Quarantine flashes, or update the entry of a flash that is already quarantined (the
+   * latest reason wins, a flash already on record is kept). Pass the client of an open
+   * transaction to commit them together with the removal from a retry loop.
+   */
+  async add(entries: NewQuarantineEntry[], client?: PoolClient): Promise<void> {
+    if (entries.length === 0) return;
+
+    const sql = `
+      INSERT INTO quarantined_flashes (flash_id, reason, attempts, last_error, flash, details)
+      SELECT * FROM UNNEST($1::bigint[], $2::text[], $3::int[], $4::text[], $5::jsonb[], $6::jsonb[])
+      ON CONFLICT (flash_id) DO UPDATE SET
+        reason = EXCLUDED.reason,
+        attempts = EXCLUDED.attempts,
+        last_error = EXCLUDED.last_error,
+        flash = COALESCE(EXCLUDED.flash, quarantined_flashes.flash),
+        details = EXCLUDED.details,
+        updated_at = NOW()
+    `;
+
+    // One row per flash, UNNEST would otherwise hit the same row twice
+    const byFlashId = new Map(entries.map((entry) => [entry.flashId, entry]));
+    const unique = [...byFlashId.values()];
+    await this.query(
+      sql,
+      [
+        unique.map((e) => e.flashId),
+        unique.map((e) => e.reason),
+        unique.map((e) => e.attempts),
+        unique.map((e) => e.error ?? null),
+        unique.map((e) => (e.flash ? JSON.stringify(e.flash) : null)),
+        unique.map((e) => JSON.stringify(e.details ?? {})),
+      ],
+      client,
+    );
+  }
+
+  async list(filter: QuarantineFilter = {}): Promise<QuarantineEntry[]> {
+    const params: unknown[] = [];
+    let where = "";
+    if (filter.reason) {
+      params.push(filter.reason);
+      where = `WHERE reason = $${params.length}`;
+    }
+    let limit = "";
+    if (filter.limit !== undefined) {
+      params.push(filter.limit);
+      limit = `LIMIT $${params.length}`;
+    }
+
+    const rows = await this.query(`SELECT * FROM quarantined_flashes ${where} ORDER BY quarantined_at DESC, flash_id ${limit}`, params);
+    return rows.map(toEntry);
+  }
+
+  async get(flashId: number): Promise<QuarantineEntry | null> {
+    const row = await this.queryOne(`SELECT * FROM quarantined_flashes WHERE flash_id = $1`, [flashId]);
+    return row ? toEntry(row) : null;
+  }
+
+  /**
+   * Subset of `flashIds` that are quarantined
+   */
+  async getQuarantinedIds(flashIds: number[]): Promise<number[]> {
+    if (flashIds.length === 0) return [];
+
+    const rows = await this.query<{ flash_id: string }>(
+      `SELECT flash_id FROM quarantined_flashes WHERE flash_id = ANY($1)`,
+      [flashIds],
+    );
+    return rows.map((row) => Number(row.flash_id));
+  }
+
+  /**
+   * Delete entries, returns the ones that existed
+   */
+  async remove(flashIds: number[], client?: PoolClient): Promise<QuarantineEntry[]> {
+    if (flashIds.length === 0) return [];
+
+    const rows = await this.query(`DELETE FROM quarantined_flashes WHERE flash_id = ANY($1) RETURNING *`, [flashIds], client);
+    return rows.map(toEntry);
+  }
+
+  async countByReason(): Promise<Record<QuarantineReason, number>> {
+    const rows = await this.query<{ reason: QuarantineReason; count: string }>(
+      `SELECT reason, COUNT(*) AS count FROM quarantined_flashes GROUP BY reason`,
+    );
+
+    const counts: Record<QuarantineReason, number> = {
+      db_write_failed: 0,
+      publish_failed: 0,
+      unexpected_error: 0,
+      processing_failed: 0,
+      dead_lettered: 0,
+    };
+    for (const row of rows) {
+      counts[row.reason] = Number(row.count);
+    }
+    return counts;
+  }
+}
+
+// BIGINT comes back as a string
+function toEntry(row: QuarantineEntry): QuarantineEntry {
+  return { ...row, flash_id: Number(row.flash_id) };
+}
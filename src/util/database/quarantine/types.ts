@@ -0,0 +1,38 @@
+import { Flash } from "../invader-flashes/types";
+
+// Which retry loop gave up on the flash
+export type QuarantineReason = "db_write_failed" | "publish_failed" | "unexpected_error" | "processing_failed" | "dead_lettered";
+
+export const QUARANTINE_REASONS: QuarantineReason[] = [
+  "db_write_failed",
+  "publish_failed",
+  "unexpected_error",
+  "processing_failed",
+  "dead_lettered",
+];
+
+export interface QuarantineEntry {
+  flash_id: number;
+  reason: QuarantineReason;
+  attempts: number;
+  last_error: string | null;
+  flash: Flash | null;
+  details: Record<string, unknown>;
+  quarantined_at: Date;
+  updated_at: Date;
+}
+
+export interface NewQuarantineEntry {
+  flashId: number;
+  reason: QuarantineReason;
+  attempts: number;
+  error?: string | null;
+  flash?: Flash | null;
+  details?: Record<string, unknown>;
+}
+
+export interface QuarantineFilter {
+  reason?: QuarantineReason;
+  // Newest first, all when not given
+  limit?: number;
+}
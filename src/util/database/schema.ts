@@ -0,0 +1,20 @@
+import { Pool } from "pg";
+import * as fs from "fs";
+import * as path from "path";
+
+// Tables owned by the producer, applied in order. Every statement must be idempotent.
+export const SCHEMA_FILES = ["producer-state.sql", "job-runs.sql", "outbox.sql", "flash-processing.sql", "quarantined-flashes.sql"];
+
+/**
+ * Create the producer's own tables if they don't exist yet
+ */
+export async function applySchema(pool: Pool): Promise<void> {
+  const schemaDir = path.join(process.cwd(), "src", "database");
+
+  for (const file of SCHEMA_FILES) {
+    const sql = fs.readFileSync(path.join(schemaDir, file), "utf-8");
+    await pool.query(sql);
+  }
+
+  console.log(`[Schema] Applied ${SCHEMA_FILES.length} schema file(s)`);
+}
@@ -0,0 +1,133 @@
+import { Flash } from "../database/invader-flashes/types";
+import { FlashFeedCursorStore, computeFlashFeedDelta, fingerprintFlashes } from "./feed-cursor";
+import { FlashFeedCursor, ValidatedFlashInvaderResponse } from "./types";
+
+jest.mock("../database/producer-state", () => ({ ProducerStateDb: jest.fn() }));
+jest.mock("../database/invader-flashes", () => ({ PostgresFlashesDb: jest.fn() }));
+jest.mock("../database/flashcastr-users", () => ({ FlashcastrUsersDb: jest.fn() }));
+
+function flash(flashId: number, ipfsCid: string = "", player: string = "invader"): Flash {
+  return {
+    flash_id: flashId,
+    city: "Paris",
+    player,
+    img: `/img/${flashId}.jpg`,
+    ipfs_cid: ipfsCid,
+    text: "",
+    timestamp: 1760000000,
+    flash_count: "1",
+  };
+}
+
+function response(withParis: number[], withoutParis: number[] = []): ValidatedFlashInvaderResponse {
+  return {
+    flash_count: String(withParis.length + withoutParis.length),
+    player_count: "1",
+    with_paris: withParis.map((id) => flash(id)),
+    without_paris: withoutParis.map((id) => flash(id)),
+    quarantined: [],
+    diagnostics: [],
+  };
+}
+
+function cursorFor(feed: ValidatedFlashInvaderResponse, highWaterMark: number): FlashFeedCursor {
+  return { fingerprint: fingerprintFlashes(feed), highWaterMark, updatedAt: "2026-10-19T00:00:00.000Z" };
+}
+
+const ids = (flashes: Flash[]) => flashes.map((f) => f.flash_id);
+
+describe("fingerprintFlashes", () => {
+  it("depends on the flash id set only", () => {
+    const feed = response([3, 1], [2]);
+
+    expect(fingerprintFlashes({ ...response([1, 2, 3]), flash_count: "999" })).toBe(fingerprintFlashes(feed));
+    expect(fingerprintFlashes(response([1, 2, 3, 3]))).toBe(fingerprintFlashes(feed));
+    expect(fingerprintFlashes(response([1, 2, 4]))).not.toBe(fingerprintFlashes(feed));
+  });
+});
+
+describe("computeFlashFeedDelta", () => {
+  it("treats everything as new without a cursor", () => {
+    const delta = computeFlashFeedDelta(response([1, 2], [3]), null);
+
+    expect(delta).toMatchObject({ unchanged: false, previousFingerprint: null, previousHighWaterMark: null, highWaterMark: 3 });
+    expect(ids(delta.newFlashes.with_paris)).toEqual([1, 2]);
+    expect(ids(delta.newFlashes.without_paris)).toEqual([3]);
+  });
+
+  it("detects an unchanged feed even when the counter moved", () => {
+    const feed = response([1, 2], [3]);
+    const delta = computeFlashFeedDelta({ ...feed, flash_count: "42" }, cursorFor(feed, 3), new Set([1, 2, 3]));
+
+    expect(delta.unchanged).toBe(true);
+    expect(ids(delta.newFlashes.with_paris)).toEqual([]);
+    expect(ids(delta.newFlashes.without_paris)).toEqual([]);
+  });
+
+  it("keeps flashes above the high-water mark", () => {
+    const delta = computeFlashFeedDelta(response([1, 5], [2, 6]), cursorFor(response([1], [2]), 2), new Set([1, 2]));
+
+    expect(delta.unchanged).toBe(false);
+    expect(ids(delta.newFlashes.with_paris)).toEqual([5]);
+    expect(ids(delta.newFlashes.without_paris)).toEqual([6]);
+    expect(delta.highWaterMark).toBe(6);
+  });
+
+  it("keeps late flashes below the mark that aren't settled", () => {
+    // 4 arrived after 10 was processed; 7 was stored but never pinned
+    const delta = computeFlashFeedDelta(response([4, 7, 8, 10, 11]), cursorFor(response([8, 10]), 10), new Set([8, 10]));
+
+    expect(ids(delta.newFlashes.with_paris)).toEqual([4, 7, 11]);
+  });
+
+  it("never lowers the high-water mark", () => {
+    const delta = computeFlashFeedDelta(response([1, 2]), cursorFor(response([20]), 20), new Set([1, 2]));
+
+    expect(delta.previousHighWaterMark).toBe(20);
+    expect(delta.highWaterMark).toBe(20);
+  });
+});
+
+describe("FlashFeedCursorStore.settledFlashIds", () => {
+  const flashcastrUsers = (...usernames: string[]) => ({ getMany: jest.fn().mockResolvedValue(usernames.map((username) => ({ username }))) });
+
+  it("looks up only flashes at or below the mark and keeps the pinned ones", async () => {
+    const getByIds = jest.fn().mockResolvedValue([flash(1, "bafy1"), flash(2, " "), { ...flash(3, "bafy3"), flash_id: "3" }]);
+    const store = new FlashFeedCursorStore({} as never, { getByIds } as never, flashcastrUsers("Invader") as never);
+
+    const settled = await store.settledFlashIds(response([1, 2, 3], [3, 9]), cursorFor(response([1]), 3));
+
+    expect(getByIds).toHaveBeenCalledWith([1, 2, 3]);
+    expect([...settled]).toEqual([1, 3]);
+  });
+
+  it("settles with_paris flashes of players who aren't Flashcastr users, which are never stored", async () => {
+    const getByIds = jest.fn().mockResolvedValue([]);
+    const store = new FlashFeedCursorStore({} as never, { getByIds } as never, flashcastrUsers("alice") as never);
+    const feed: ValidatedFlashInvaderResponse = {
+      ...response([], [4]),
+      with_paris: [flash(1, "", "bob"), flash(2, "", "Alice"), flash(4, "", "bob"), flash(12, "", "bob")],
+    };
+    const cursor = cursorFor(feed, 10);
+
+    const settled = await store.settledFlashIds(feed, cursor);
+
+    // 2 belongs to a Flashcastr user and 4 is also in without_paris: both still need storing
+    expect([...settled]).toEqual([1]);
+    expect(getByIds).toHaveBeenCalledWith([2, 4]);
+    // Every tick, only what still needs processing comes back
+    const delta = computeFlashFeedDelta(feed, cursor, settled);
+    expect(ids(delta.newFlashes.with_paris)).toEqual([2, 4, 12]);
+    expect(ids(delta.newFlashes.without_paris)).toEqual([4]);
+  });
+
+  it("doesn't query without a cursor", async () => {
+    const getByIds = jest.fn();
+    const users = flashcastrUsers();
+    const store = new FlashFeedCursorStore({} as never, { getByIds } as never, users as never);
+
+    expect(await store.settledFlashIds(response([1]), null)).toEqual(new Set());
+    expect(getByIds).not.toHaveBeenCalled();
+    expect(users.getMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { FlashcastrUsersDb } from "../database/flashcastr-users";
+import { ProducerStateDb } from "../database/producer-state";
+import { FlashFeedCursor, FlashFeedDelta, FlashInvaderResponse, ValidatedFlashInvaderResponse } from "./types";
+
+const CURSOR_KEY = "flash_feed_cursor";
+
+/**
+ * Content fingerprint of a response: hash of the ordered set of flash ids.
+ * Counters are deliberately excluded, so a bumped flash_count with the same
+ * flashes is "unchanged" and a changed feed with the same count is not.
+ */
+export function fingerprintFlashes(response: FlashInvaderResponse): string {
+  const ids = [...new Set([...response.with_paris, ...response.without_paris].map((f) => f.flash_id))].sort((a, b) => a - b);
+  return createHash("sha256").update(ids.join(",")).digest("hex");
+}
+
+/**
+ * Compare a response against the persisted cursor. Flashes above the high-water mark are
+ * new; at or below it only those not in `settledIds` (see settledFlashIds) are kept,
+ * so late or out-of-order arrivals and flashes a crash skipped are still processed.
+ */
+export function computeFlashFeedDelta(
+  response: ValidatedFlashInvaderResponse,
+  cursor: FlashFeedCursor | null,
+  settledIds: ReadonlySet<number> = new Set(),
+): FlashFeedDelta {
+  const fingerprint = fingerprintFlashes(response);
+  const previousHighWaterMark = cursor?.highWaterMark ?? null;
+  const isNew = (flash: { flash_id: number }) =>
+    previousHighWaterMark === null || flash.flash_id > previousHighWaterMark || !settledIds.has(flash.flash_id);
+
+  const newFlashes: FlashInvaderResponse = {
+    flash_count: response.flash_count,
+    player_count: response.player_count,
+    with_paris: response.with_paris.filter(isNew),
+    without_paris: response.without_paris.filter(isNew),
+  };
+
+  const maxFlashId = Math.max(0, ...response.with_paris.map((f) => f.flash_id), ...response.without_paris.map((f) => f.flash_id));
+
+  return {
+    response,
+    fingerprint,
+    previousFingerprint: cursor?.fingerprint ?? null,
+    unchanged: cursor !== null && cursor.fingerprint === fingerprint,
+    previousHighWaterMark,
+    highWaterMark: Math.max(maxFlashId, previousHighWaterMark ?? 0),
+    newFlashes,
+  };
+}
+
+/**
+ * Persists the last seen fingerprint and flash id high-water mark in Postgres
+ */
+export class FlashFeedCursorStore {
+  constructor(
+    private stateDb: ProducerStateDb = new ProducerStateDb(),
+    private flashesDb: PostgresFlashesDb = new PostgresFlashesDb(),
+    private usersDb: FlashcastrUsersDb = new FlashcastrUsersDb(),
+  ) {}
+
+  async load(): Promise<FlashFeedCursor | null> {
+    return this.stateDb.get<FlashFeedCursor>(CURSOR_KEY);
+  }
+
+  /**
+   * Flashes of the response at or below the high-water mark that need no more processing:
+   * stored with an ipfs_cid, or with_paris flashes of players who aren't Flashcastr users,
+   * which store-flashes skips and so would never be stored. The mark only saves looking up
+   * the flashes above it, which can't be stored yet.
+   */
+  async settledFlashIds(response: FlashInvaderResponse, cursor: FlashFeedCursor | null): Promise<Set<number>> {
+    if (!cursor) return new Set();
+
+    const belowMark = (flash: { flash_id: number }) => flash.flash_id <= cursor.highWaterMark;
+    const settled = new Set<number>();
+
+    const withoutParisIds = new Set(response.without_paris.map((f) => f.flash_id));
+    const withParis = response.with_paris.filter((f) => belowMark(f) && !withoutParisIds.has(f.flash_id));
+    if (withParis.length > 0) {
+      const usernames = new Set((await this.usersDb.getMany({})).map((user) => user.username.toLowerCase()));
+      for (const flash of withParis) {
+        if (!usernames.has(flash.player.toLowerCase())) settled.add(flash.flash_id);
+      }
+    }
+
+    const ids = [...new Set([...response.with_paris, ...response.without_paris].filter(belowMark).map((f) => f.flash_id))].filter(
+      (flashId) => !settled.has(flashId),
+    );
+    const stored = await this.flashesDb.getByIds(ids);
+    for (const flash of stored) {
+      if (flash.ipfs_cid && flash.ipfs_cid.trim() !== "") settled.add(Number(flash.flash_id));
+    }
+    return settled;
+  }
+
+  async save(delta: FlashFeedDelta): Promise<void> {
+    const cursor: FlashFeedCursor = {
+      fingerprint: delta.fingerprint,
+      highWaterMark: delta.highWaterMark,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.stateDb.set(CURSOR_KEY, cursor);
+  }
+}
@@ -0,0 +1,213 @@
+import { RandomSource, chance, pick } from "./random";
+
+export type BrowserFamily = "chrome" | "edge" | "firefox" | "safari";
+
+/**
+ * A coherent browser identity kept for a whole session, so the User-Agent,
+ * client hints and platform never contradict each other between requests.
+ */
+export interface HeaderProfile {
+  name: string;
+  family: BrowserFamily;
+  userAgent: string;
+  // Client hints, only sent by Chromium based browsers
+  secChUa?: string;
+  secChUaPlatform?: string;
+  acceptLanguage: string;
+  acceptEncoding: string;
+  doNotTrack: boolean;
+  globalPrivacyControl: boolean;
+  viewportWidth?: string;
+}
+
+type Platform = "macOS" | "Windows" | "Linux";
+
+const CHROMIUM_OS: Record<Platform, string> = {
+  macOS: "Macintosh; Intel Mac OS X 10_15_7",
+  Windows: "Windows NT 10.0; Win64; x64",
+  Linux: "X11; Linux x86_64",
+};
+
+const FIREFOX_OS: Record<"macOS" | "Windows", string> = {
+  macOS: "Macintosh; Intel Mac OS X 10.15",
+  Windows: "Windows NT 10.0; Win64; x64",
+};
+
+// GREASE brand Chromium sends alongside each major version
+const CHROMIUM_GREASE: Record<number, string> = {
+  124: '"Not-A.Brand";v="99"',
+  123: '"Not.A/Brand";v="8"',
+  122: '"Not(A:Brand";v="24"',
+  121: '"Not A(Brand";v="99"',
+  120: '"Not_A Brand";v="8"',
+  119: '"Not?A_Brand";v="24"',
+};
+
+const CHROME_VERSIONS = [124, 123, 122, 121, 120, 119];
+const EDGE_VERSIONS = [124, 123];
+const FIREFOX_VERSIONS = [122, 121, 120];
+const SAFARI_VERSIONS = ["17.1", "17.0"];
+
+const ACCEPT_LANGUAGES = [
+  "en-US,en;q=0.9",
+  "en-GB,en;q=0.9",
+  "en-US,en;q=0.9,fr;q=0.8",
+  "en-US,en;q=0.9,es;q=0.8",
+  "en-US,en;q=0.9,de;q=0.8",
+  "en,en-GB;q=0.9,en-US;q=0.8",
+  "en-US,en;q=0.9,fr;q=0.8,de;q=0.7",
+  "en-GB,en-US;q=0.9,en;q=0.8",
+  "en-US,en;q=0.8",
+];
+
+const VIEWPORT_WIDTHS = ["1920", "1366", "1440", "1536", "1280", "2560"];
+
+const REFERERS = [
+  undefined,
+  "https://api.space-invaders.com/",
+  "https://api.space-invaders.com/flashinvaders",
+  "https://space-invaders.com/",
+  "https://space-invaders.com/flashinvaders",
+  "https://www.google.com/",
+  "https://www.google.com/search?q=space+invaders",
+  undefined,
+  undefined,
+];
+
+// Rough browser market share, so the profile mix looks like real traffic
+const FAMILY_WEIGHTS: [BrowserFamily, number][] = [
+  ["chrome", 0.6],
+  ["edge", 0.12],
+  ["safari", 0.16],
+  ["firefox", 0.12],
+];
+
+export function createHeaderProfile(random: RandomSource): HeaderProfile {
+  const family = pickFamily(random);
+  const acceptLanguage = pick(random, ACCEPT_LANGUAGES);
+
+  switch (family) {
+    case "chrome":
+    case "edge": {
+      const platform: Platform = family === "edge" ? pick(random, ["Windows", "macOS"] as const) : pick(random, ["macOS", "Windows", "Linux"] as const);
+      const version = pick(random, family === "edge" ? EDGE_VERSIONS : CHROME_VERSIONS);
+      const brand = family === "edge" ? `"Microsoft Edge";v="${version}"` : `"Google Chrome";v="${version}"`;
+      const userAgent =
+        `Mozilla/5.0 (${CHROMIUM_OS[platform]}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${version}.0.0.0 Safari/537.36` +
+        (family === "edge" ? ` Edg/${version}.0.0.0` : "");
+
+      return {
+        name: `${family}-${version}-${platform.toLowerCase()}`,
+        family,
+        userAgent,
+        secChUa: `"Chromium";v="${version}", ${brand}, ${CHROMIUM_GREASE[version]}`,
+        secChUaPlatform: `"${platform}"`,
+        acceptLanguage,
+        acceptEncoding: version >= 123 ? "gzip, deflate, br, zstd" : "gzip, deflate, br",
+        doNotTrack: chance(random, 0.2),
+        globalPrivacyControl: false,
+        viewportWidth: chance(random, 0.1) ? pick(random, VIEWPORT_WIDTHS) : undefined,
+      };
+    }
+    case "firefox": {
+      const platform = pick(random, ["macOS", "Windows"] as const);
+      const version = pick(random, FIREFOX_VERSIONS);
+
+      return {
+        name: `firefox-${version}-${platform.toLowerCase()}`,
+        family,
+        userAgent: `Mozilla/5.0 (${FIREFOX_OS[platform]}; rv:${version}.0) Gecko/20100101 Firefox/${version}.0`,
+        acceptLanguage,
+        acceptEncoding: "gzip, deflate, br",
+        doNotTrack: chance(random, 0.4),
+        globalPrivacyControl: chance(random, 0.1),
+      };
+    }
+    case "safari": {
+      const version = pick(random, SAFARI_VERSIONS);
+
+      return {
+        name: `safari-${version}-macos`,
+        family,
+        userAgent: `Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/${version} Safari/605.1.15`,
+        acceptLanguage,
+        acceptEncoding: "gzip, deflate, br",
+        doNotTrack: false,
+        globalPrivacyControl: false,
+      };
+    }
+  }
+}
+
+/**
+ * Headers for a single request: the profile's identity plus the small
+ * per-request variations a real browser produces (referer, caching, fetch site).
+ */
+export function buildRequestHeaders(profile: HeaderProfile, random: RandomSource): Record<string, string> {
+  const headers: Record<string, string> = {
+    "User-Agent": profile.userAgent,
+    "Accept": "application/json, text/plain, */*",
+    "Accept-Language": profile.acceptLanguage,
+    "Accept-Encoding": profile.acceptEncoding,
+  };
+
+  if (chance(random, 0.8)) {
+    headers["Connection"] = chance(random, 0.7) ? "keep-alive" : "close";
+  }
+
+  if (profile.doNotTrack) {
+    headers["DNT"] = "1";
+  }
+
+  if (chance(random, 0.3)) {
+    headers["Cache-Control"] = chance(random, 0.5) ? "no-cache" : "max-age=0";
+  }
+
+  if (chance(random, 0.2)) {
+    headers["Pragma"] = "no-cache";
+  }
+
+  if (profile.secChUa && profile.secChUaPlatform) {
+    headers["Sec-Ch-Ua"] = profile.secChUa;
+    headers["Sec-Ch-Ua-Mobile"] = "?0";
+    headers["Sec-Ch-Ua-Platform"] = profile.secChUaPlatform;
+    headers["Sec-Fetch-Dest"] = "empty";
+    headers["Sec-Fetch-Mode"] = "cors";
+    headers["Sec-Fetch-Site"] = chance(random, 0.7) ? "same-origin" : "cross-site";
+  }
+
+  const referer = pick(random, REFERERS);
+  if (referer) {
+    headers["Referer"] = referer;
+  }
+
+  if (chance(random, 0.15)) {
+    headers["Origin"] = "https://api.space-invaders.com";
+  }
+
+  if (profile.family === "firefox" && chance(random, 0.3)) {
+    headers["Upgrade-Insecure-Requests"] = "1";
+  }
+
+  if (profile.viewportWidth) {
+    headers["Viewport-Width"] = profile.viewportWidth;
+  }
+
+  if (profile.globalPrivacyControl) {
+    headers["Sec-GPC"] = "1";
+  }
+
+  return headers;
+}
+
+function pickFamily(random: RandomSource): BrowserFamily {
+  const total = FAMILY_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random.next() * total;
+
+  for (const [family, weight] of FAMILY_WEIGHTS) {
+    roll -= weight;
+    if (roll < 0) return family;
+  }
+
+  return FAMILY_WEIGHTS[0][0];
+}
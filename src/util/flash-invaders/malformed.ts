@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import { ProducerStateDb } from "../database/producer-state";
+import { FlashCollection, QuarantinedFlash, SchemaDiagnostic } from "./types";
+
+const MALFORMED_KEY = "malformed_api_items";
+const DEFAULT_MAX_ITEMS = 200;
+
+// A malformed API item as stored for operators, see `yarn invaders malformed`
+export interface MalformedApiItem {
+  // flash_id if the item had a usable one, else a hash of the item
+  key: string;
+  flashId: number | null;
+  collection: FlashCollection;
+  item: unknown;
+  diagnostics: SchemaDiagnostic[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Responses the item was seen in
+  seenCount: number;
+}
+
+/**
+ * Keeps the items the schema validator set aside in producer_state, newest first, so they
+ * can be inspected after the run that logged them. An item that keeps coming back in the
+ * feed is stored once with its seen count. Not in quarantined_flashes: a flash quarantined
+ * there would be skipped even once upstream sends a valid version of it.
+ */
+export class MalformedFlashStore {
+  constructor(
+    private stateDb: ProducerStateDb = new ProducerStateDb(),
+    private maxItems: number = DEFAULT_MAX_ITEMS,
+  ) {}
+
+  async list(): Promise<MalformedApiItem[]> {
+    return (await this.stateDb.get<MalformedApiItem[]>(MALFORMED_KEY)) ?? [];
+  }
+
+  async record(quarantined: QuarantinedFlash[], now: Date = new Date()): Promise<void> {
+    if (quarantined.length === 0) return;
+
+    const seenAt = now.toISOString();
+    const byKey = new Map((await this.list()).map((item) => [item.key, item]));
+    const seen: MalformedApiItem[] = [];
+
+    for (const { collection, item, diagnostics } of quarantined) {
+      const flashId = flashIdOf(item);
+      const key = flashId !== null ? String(flashId) : createHash("sha256").update(JSON.stringify(item) ?? "").digest("hex");
+      const previous = byKey.get(key);
+      byKey.delete(key);
+
+      seen.push({
+        key,
+        flashId,
+        collection,
+        item,
+        diagnostics,
+        firstSeenAt: previous?.firstSeenAt ?? seenAt,
+        lastSeenAt: seenAt,
+        seenCount: (previous?.seenCount ?? 0) + 1,
+      });
+    }
+
+    await this.stateDb.set(MALFORMED_KEY, [...seen, ...byKey.values()].slice(0, this.maxItems));
+  }
+
+  async clear(): Promise<void> {
+    await this.stateDb.delete(MALFORMED_KEY);
+  }
+}
+
+function flashIdOf(item: unknown): number | null {
+  if (typeof item !== "object" || item === null) return null;
+  const flashId = Number((item as { flash_id?: unknown }).flash_id);
+  return Number.isSafeInteger(flashId) && flashId > 0 ? flashId : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), injectable so request
+ * fingerprints and delays can be reproduced (API_RANDOM_SEED) or tested.
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const mathRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Deterministic generator (mulberry32) seeded from a number or any string
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+/**
+ * Seeded generator when API_RANDOM_SEED is set, Math.random otherwise
+ */
+export function randomSourceFromEnv(env: NodeJS.ProcessEnv = process.env): RandomSource {
+  const seed = env.API_RANDOM_SEED;
+  if (!seed) return mathRandom;
+
+  console.log(`[SpaceInvadersAPI] Using seeded random source (API_RANDOM_SEED=${seed})`);
+  return createSeededRandom(seed);
+}
+
+// Shared by every SpaceInvadersAPI, so a seeded sequence continues across runs instead of replaying
+export const apiRandom: RandomSource = randomSourceFromEnv();
+
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return Math.floor(random.next() * (max - min + 1)) + min;
+}
+
+export function pick<T>(random: RandomSource, items: readonly T[]): T {
+  return items[Math.floor(random.next() * items.length)];
+}
+
+export function chance(random: RandomSource, probability: number): boolean {
+  return random.next() < probability;
+}
+
+function hashSeed(seed: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
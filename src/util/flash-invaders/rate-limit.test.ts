@@ -0,0 +1,81 @@
+import { notBeforeFromResponse, parseRetryAfter } from "./rate-limit";
+
+jest.mock("../database/producer-state", () => ({ ProducerStateDb: jest.fn() }));
+jest.mock("../metrics", () => ({ apiNotBeforeTimestamp: { set: jest.fn() } }));
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+describe("parseRetryAfter", () => {
+  it("reads delay seconds", () => {
+    expect(parseRetryAfter({ "retry-after": "120" }, NOW)).toBe(120_000);
+    expect(parseRetryAfter({ "retry-after": " 0 " }, NOW)).toBe(0);
+  });
+
+  it("reads an HTTP date", () => {
+    expect(parseRetryAfter({ "retry-after": "Mon, 19 Oct 2026 12:05:00 GMT" }, NOW)).toBe(300_000);
+  });
+
+  it("never returns a negative delay for a date in the past", () => {
+    expect(parseRetryAfter({ "retry-after": "Mon, 19 Oct 2026 11:00:00 GMT" }, NOW)).toBe(0);
+  });
+
+  it("uses the first value of a repeated header", () => {
+    expect(parseRetryAfter({ "retry-after": ["30", "60"] }, NOW)).toBe(30_000);
+  });
+
+  it("falls back to RateLimit-Reset and X-RateLimit-Reset", () => {
+    expect(parseRetryAfter({ "ratelimit-reset": "45" }, NOW)).toBe(45_000);
+    expect(parseRetryAfter({ "x-ratelimit-reset": "45" }, NOW)).toBe(45_000);
+    // Epoch seconds
+    expect(parseRetryAfter({ "x-ratelimit-reset": String(NOW / 1000 + 90) }, NOW)).toBe(90_000);
+  });
+
+  it("prefers Retry-After over the reset headers", () => {
+    expect(parseRetryAfter({ "retry-after": "10", "ratelimit-reset": "45" }, NOW)).toBe(10_000);
+  });
+
+  it("skips an unusable Retry-After for a usable reset header", () => {
+    expect(parseRetryAfter({ "retry-after": "soon", "ratelimit-reset": "45" }, NOW)).toBe(45_000);
+  });
+
+  it.each([
+    ["no headers", undefined],
+    ["no rate limit headers", { "content-type": "application/json" }],
+    ["a negative delay", { "retry-after": "-5" }],
+    ["a fractional delay", { "retry-after": "1.5" }],
+    ["garbage", { "retry-after": "soon" }],
+    ["an empty value", { "retry-after": "", "x-ratelimit-reset": "" }],
+    ["a null value", { "retry-after": null }],
+  ])("returns null for %s", (_, headers) => {
+    expect(parseRetryAfter(headers as Record<string, unknown> | undefined, NOW)).toBeNull();
+  });
+});
+
+describe("notBeforeFromResponse", () => {
+  it("backs off for the requested delay", () => {
+    expect(notBeforeFromResponse(429, { "retry-after": "120" }, NOW)).toEqual({
+      until: NOW + 120_000,
+      status: 429,
+      source: "header",
+      setAt: "2026-10-19T12:00:00.000Z",
+    });
+  });
+
+  it("uses the default backoff for a 429 without a usable header", () => {
+    expect(notBeforeFromResponse(429, {}, NOW)).toMatchObject({ until: NOW + 300_000, source: "default" });
+  });
+
+  it("only backs off on a 503 that asks for it", () => {
+    expect(notBeforeFromResponse(503, {}, NOW)).toBeNull();
+    expect(notBeforeFromResponse(503, { "retry-after": "60" }, NOW)).toMatchObject({ until: NOW + 60_000, status: 503 });
+  });
+
+  it("caps what the upstream can ask for", () => {
+    expect(notBeforeFromResponse(429, { "retry-after": String(7 * 24 * 3600) }, NOW)).toMatchObject({ until: NOW + 3_600_000 });
+  });
+
+  it("ignores other statuses", () => {
+    expect(notBeforeFromResponse(500, { "retry-after": "60" }, NOW)).toBeNull();
+    expect(notBeforeFromResponse(undefined, { "retry-after": "60" }, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { ProducerStateDb } from "../database/producer-state";
+import { apiNotBeforeTimestamp } from "../metrics";
+import { ApiNotBefore } from "./types";
+
+const NOT_BEFORE_KEY = "api_not_before";
+
+// Used for a 429 that doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = parseInt(process.env.API_RATE_LIMIT_BACKOFF_MS || "300000");
+// Upper bound on what the upstream can ask for, so a bogus header can't stop the bot for days
+const MAX_RETRY_AFTER_MS = parseInt(process.env.API_MAX_RETRY_AFTER_MS || "3600000");
+
+/**
+ * Delay in ms requested by Retry-After (seconds or HTTP date) or, failing that,
+ * RateLimit-Reset / X-RateLimit-Reset (delta seconds or epoch seconds). Null if none is usable.
+ */
+export function parseRetryAfter(headers: Record<string, unknown> | undefined, now: number): number | null {
+  if (!headers) return null;
+
+  const retryAfter = headerValue(headers, "retry-after");
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) {
+      return parseInt(retryAfter, 10) * 1000;
+    }
+    // HTTP dates start with the day name; Date.parse alone would take "1.5" or "-5" for a date
+    const date = /^[a-z]{3}/i.test(retryAfter) ? Date.parse(retryAfter) : NaN;
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headerValue(headers, "ratelimit-reset") ?? headerValue(headers, "x-ratelimit-reset");
+  if (reset && /^\d+$/.test(reset)) {
+    const value = parseInt(reset, 10);
+    // Large values are absolute epoch seconds, small ones a delay
+    return value > 1_000_000_000 ? Math.max(0, value * 1000 - now) : value * 1000;
+  }
+
+  return null;
+}
+
+/**
+ * "Do not call before" timestamp for a 429/503 response, or null when the
+ * response doesn't ask us to back off.
+ */
+export function notBeforeFromResponse(
+  status: number | undefined,
+  headers: Record<string, unknown> | undefined,
+  now: number,
+): ApiNotBefore | null {
+  if (status !== 429 && status !== 503) return null;
+
+  const requested = parseRetryAfter(headers, now);
+  if (requested === null && status === 503) return null;
+
+  const delay = Math.min(requested ?? DEFAULT_RATE_LIMIT_BACKOFF_MS, MAX_RETRY_AFTER_MS);
+  return {
+    until: now + delay,
+    status,
+    source: requested === null ? "default" : "header",
+    setAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Persists the upstream's back-off request in producer_state so a restart still honors it
+ */
+export class ApiNotBeforeStore {
+  constructor(private stateDb: ProducerStateDb = new ProducerStateDb()) {}
+
+  async load(): Promise<ApiNotBefore | null> {
+    const notBefore = await this.stateDb.get<ApiNotBefore>(NOT_BEFORE_KEY);
+    apiNotBeforeTimestamp.set(notBefore ? notBefore.until / 1000 : 0);
+    return notBefore;
+  }
+
+  async save(notBefore: ApiNotBefore): Promise<void> {
+    await this.stateDb.set(NOT_BEFORE_KEY, notBefore);
+    apiNotBeforeTimestamp.set(notBefore.until / 1000);
+  }
+
+  async clear(): Promise<void> {
+    await this.stateDb.delete(NOT_BEFORE_KEY);
+    apiNotBeforeTimestamp.set(0);
+  }
+}
+
+function headerValue(headers: Record<string, unknown>, name: string): string | undefined {
+  // axios lower-cases response header names
+  const value = headers[name];
+  if (value === undefined || value === null) return undefined;
+  return String(Array.isArray(value) ? value[0] : value).trim();
+}
@@ -0,0 +1,110 @@
+import { apiSchemaViolationsTotal } from "../metrics";
+import { validateFlashInvaderResponse } from "./schema";
+
+jest.mock("../metrics", () => ({ apiSchemaViolationsTotal: { inc: jest.fn() } }));
+
+const inc = apiSchemaViolationsTotal.inc as jest.Mock;
+
+function item(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    flash_id: 42,
+    timestamp: 1760000000,
+    city: "Paris",
+    player: "invader",
+    img: "/img/42.jpg",
+    text: "PA_1234",
+    flash_count: "7",
+    ...overrides,
+  };
+}
+
+function payload(withParis: unknown[], withoutParis: unknown[] = []): Record<string, unknown> {
+  return { flash_count: "2", player_count: "1", with_paris: withParis, without_paris: withoutParis };
+}
+
+beforeEach(() => inc.mockClear());
+
+describe("validateFlashInvaderResponse", () => {
+  it("accepts a well-formed payload and normalizes optional fields", () => {
+    const result = validateFlashInvaderResponse(payload([item()], [item({ flash_id: 43, text: undefined, flash_count: null })]));
+
+    expect(result).toEqual({
+      valid: true,
+      response: {
+        flash_count: "2",
+        player_count: "1",
+        with_paris: [{ ...item(), ipfs_cid: "" }],
+        without_paris: [{ ...item({ flash_id: 43 }), text: "", flash_count: "", ipfs_cid: "" }],
+        quarantined: [],
+        diagnostics: [],
+      },
+    });
+    expect(inc).not.toHaveBeenCalled();
+  });
+
+  it("rejects a payload that isn't an object", () => {
+    const result = validateFlashInvaderResponse([item()]);
+
+    expect(result).toEqual({
+      valid: false,
+      diagnostics: [{ path: "$", field: "$", code: "invalid_type", expected: "object", received: "array" }],
+    });
+    expect(inc).toHaveBeenCalledWith({ field: "$", code: "invalid_type" });
+  });
+
+  it("rejects a payload with missing or non-array collections", () => {
+    const result = validateFlashInvaderResponse({ flash_count: "0", player_count: "0", with_paris: "none" });
+
+    expect(result.valid).toBe(false);
+    expect(result.valid === false && result.diagnostics.map((d) => [d.path, d.code])).toEqual([
+      ["with_paris", "invalid_type"],
+      ["without_paris", "missing_field"],
+    ]);
+  });
+
+  it("quarantines malformed items and keeps the rest", () => {
+    const bad = item({ flash_id: -1, city: "  ", player: 7 });
+    const result = validateFlashInvaderResponse(payload([item(), bad, null], [item({ flash_id: 43 })]));
+
+    if (!result.valid) throw new Error("expected a valid payload");
+    expect(result.response.with_paris.map((f) => f.flash_id)).toEqual([42]);
+    expect(result.response.without_paris.map((f) => f.flash_id)).toEqual([43]);
+    expect(result.response.quarantined.map(({ collection, index, item }) => ({ collection, index, item }))).toEqual([
+      { collection: "with_paris", index: 1, item: bad },
+      { collection: "with_paris", index: 2, item: null },
+    ]);
+    expect(result.response.quarantined[0].diagnostics).toEqual([
+      { path: "with_paris[1].flash_id", field: "with_paris[].flash_id", code: "invalid_value", expected: "positive integer", received: "number -1" },
+      { path: "with_paris[1].city", field: "with_paris[].city", code: "invalid_value", expected: "non-empty string", received: 'string "  "' },
+      { path: "with_paris[1].player", field: "with_paris[].player", code: "invalid_type", expected: "non-empty string", received: "number 7" },
+    ]);
+    expect(result.response.diagnostics).toHaveLength(4);
+    expect(inc).toHaveBeenCalledTimes(4);
+    expect(inc).toHaveBeenCalledWith({ field: "with_paris[].flash_id", code: "invalid_value" });
+  });
+
+  it("reports missing fields and wrong types of optional strings", () => {
+    const result = validateFlashInvaderResponse(payload([item({ timestamp: undefined, img: null, ipfs_cid: 5 })]));
+
+    if (!result.valid) throw new Error("expected a valid payload");
+    expect(result.response.with_paris).toEqual([]);
+    expect(result.response.diagnostics.map((d) => [d.path, d.code])).toEqual([
+      ["with_paris[0].timestamp", "missing_field"],
+      ["with_paris[0].img", "missing_field"],
+      ["with_paris[0].ipfs_cid", "invalid_type"],
+    ]);
+  });
+
+  it("records bad counters without invalidating the payload", () => {
+    const result = validateFlashInvaderResponse({ ...payload([item()]), flash_count: 2, player_count: "many" });
+
+    if (!result.valid) throw new Error("expected a valid payload");
+    expect(result.response.flash_count).toBe("2");
+    expect(result.response.player_count).toBe("many");
+    expect(result.response.with_paris).toHaveLength(1);
+    expect(result.response.diagnostics.map((d) => [d.path, d.code])).toEqual([
+      ["flash_count", "invalid_type"],
+      ["player_count", "invalid_value"],
+    ]);
+  });
+});
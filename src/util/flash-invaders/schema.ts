@@ -0,0 +1,194 @@
+import { Flash } from "../database/invader-flashes/types";
+import { apiSchemaViolationsTotal } from "../metrics";
+import {
+  FlashCollection,
+  QuarantinedFlash,
+  SchemaDiagnostic,
+  SchemaViolationCode,
+  ValidatedFlashInvaderResponse,
+} from "./types";
+
+export type FlashesValidationResult =
+  | { valid: true; response: ValidatedFlashInvaderResponse }
+  | { valid: false; diagnostics: SchemaDiagnostic[] };
+
+const NUMERIC_STRING = /^\d+$/;
+const COLLECTIONS: FlashCollection[] = ["with_paris", "without_paris"];
+
+/**
+ * Validate a /flashinvaders/flashes/ payload.
+ * Structural problems (not an object, missing arrays) invalidate the whole payload;
+ * malformed items are quarantined so the rest of the run can continue.
+ * Every violation is counted in invaders_bot_api_schema_violations_total.
+ */
+export function validateFlashInvaderResponse(data: unknown): FlashesValidationResult {
+  const diagnostics: SchemaDiagnostic[] = [];
+
+  if (!isRecord(data)) {
+    diagnostics.push(diagnostic("$", "invalid_type", "object", data));
+    return invalid(diagnostics);
+  }
+
+  for (const collection of COLLECTIONS) {
+    if (!(collection in data)) {
+      diagnostics.push(diagnostic(collection, "missing_field", "array", undefined));
+    } else if (!Array.isArray(data[collection])) {
+      diagnostics.push(diagnostic(collection, "invalid_type", "array", data[collection]));
+    }
+  }
+
+  if (diagnostics.length > 0) return invalid(diagnostics);
+
+  // Counters are informational (used for the flash count gauge), so they never invalidate the payload
+  const flashCount = validateNumericString(data, "flash_count", diagnostics);
+  const playerCount = validateNumericString(data, "player_count", diagnostics);
+
+  const quarantined: QuarantinedFlash[] = [];
+  const collections: Record<FlashCollection, Flash[]> = { with_paris: [], without_paris: [] };
+
+  for (const collection of COLLECTIONS) {
+    (data[collection] as unknown[]).forEach((item, index) => {
+      const result = validateFlash(item, `${collection}[${index}]`);
+      if (result.flash) {
+        collections[collection].push(result.flash);
+      } else {
+        quarantined.push({ collection, index, item, diagnostics: result.diagnostics });
+      }
+      diagnostics.push(...result.diagnostics);
+    });
+  }
+
+  recordViolations(diagnostics);
+
+  return {
+    valid: true,
+    response: {
+      flash_count: flashCount,
+      player_count: playerCount,
+      with_paris: collections.with_paris,
+      without_paris: collections.without_paris,
+      quarantined,
+      diagnostics,
+    },
+  };
+}
+
+/**
+ * Validate a single flash item, returning a normalized Flash when it is usable
+ */
+export function validateFlash(item: unknown, path: string): { flash: Flash | null; diagnostics: SchemaDiagnostic[] } {
+  const diagnostics: SchemaDiagnostic[] = [];
+
+  if (!isRecord(item)) {
+    diagnostics.push(diagnostic(path, "invalid_type", "object", item));
+    return { flash: null, diagnostics };
+  }
+
+  const requireNumber = (key: string) => {
+    const value = item[key];
+    if (value === undefined || value === null) {
+      diagnostics.push(diagnostic(`${path}.${key}`, "missing_field", "positive integer", value));
+    } else if (typeof value !== "number") {
+      diagnostics.push(diagnostic(`${path}.${key}`, "invalid_type", "positive integer", value));
+    } else if (!Number.isInteger(value) || value <= 0) {
+      diagnostics.push(diagnostic(`${path}.${key}`, "invalid_value", "positive integer", value));
+    }
+  };
+
+  const requireString = (key: string) => {
+    const value = item[key];
+    if (value === undefined || value === null) {
+      diagnostics.push(diagnostic(`${path}.${key}`, "missing_field", "non-empty string", value));
+    } else if (typeof value !== "string") {
+      diagnostics.push(diagnostic(`${path}.${key}`, "invalid_type", "non-empty string", value));
+    } else if (value.trim().length === 0) {
+      diagnostics.push(diagnostic(`${path}.${key}`, "invalid_value", "non-empty string", value));
+    }
+  };
+
+  const optionalString = (key: string) => {
+    const value = item[key];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      diagnostics.push(diagnostic(`${path}.${key}`, "invalid_type", "string", value));
+    }
+  };
+
+  requireNumber("flash_id");
+  requireNumber("timestamp");
+  requireString("city");
+  requireString("player");
+  requireString("img");
+  optionalString("text");
+  optionalString("flash_count");
+  optionalString("ipfs_cid");
+
+  if (diagnostics.length > 0) return { flash: null, diagnostics };
+
+  return {
+    flash: {
+      flash_id: item.flash_id as number,
+      timestamp: item.timestamp as number,
+      city: item.city as string,
+      player: item.player as string,
+      img: item.img as string,
+      text: (item.text as string | undefined) ?? "",
+      flash_count: (item.flash_count as string | undefined) ?? "",
+      ipfs_cid: (item.ipfs_cid as string | undefined) ?? "",
+    },
+    diagnostics,
+  };
+}
+
+function validateNumericString(data: Record<string, unknown>, key: string, diagnostics: SchemaDiagnostic[]): string {
+  const value = data[key];
+
+  if (value === undefined || value === null) {
+    diagnostics.push(diagnostic(key, "missing_field", "numeric string", value));
+    return "";
+  }
+
+  if (typeof value !== "string") {
+    diagnostics.push(diagnostic(key, "invalid_type", "numeric string", value));
+    return String(value);
+  }
+
+  if (!NUMERIC_STRING.test(value)) {
+    diagnostics.push(diagnostic(key, "invalid_value", "numeric string", value));
+  }
+
+  return value;
+}
+
+function invalid(diagnostics: SchemaDiagnostic[]): FlashesValidationResult {
+  recordViolations(diagnostics);
+  return { valid: false, diagnostics };
+}
+
+function recordViolations(diagnostics: SchemaDiagnostic[]): void {
+  for (const { field, code } of diagnostics) {
+    apiSchemaViolationsTotal.inc({ field, code });
+  }
+}
+
+function diagnostic(path: string, code: SchemaViolationCode, expected: string, value: unknown): SchemaDiagnostic {
+  return {
+    path,
+    field: path.replace(/\[\d+\]/g, "[]"),
+    code,
+    expected,
+    received: describe(value),
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return value.length > 40 ? `string "${value.slice(0, 40)}…"` : `string "${value}"`;
+  if (typeof value === "number") return `number ${value}`;
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,98 @@
+import { Flash } from "../database/invader-flashes/types";
+
+export interface FlashInvaderResponse {
+  flash_count: string;
+  player_count: string;
+  with_paris: Flash[];
+  without_paris: Flash[];
+}
+
+export type FlashCollection = "with_paris" | "without_paris";
+
+export type SchemaViolationCode = "missing_field" | "invalid_type" | "invalid_value";
+
+export interface SchemaDiagnostic {
+  // Concrete location, e.g. "with_paris[12].player"
+  path: string;
+  // Location without indices, safe to use as a metric label, e.g. "with_paris[].player"
+  field: string;
+  code: SchemaViolationCode;
+  expected: string;
+  received: string;
+}
+
+export interface QuarantinedFlash {
+  collection: FlashCollection;
+  index: number;
+  item: unknown;
+  diagnostics: SchemaDiagnostic[];
+}
+
+export interface ValidatedFlashInvaderResponse extends FlashInvaderResponse {
+  // Items that failed validation, kept aside instead of failing the whole run
+  quarantined: QuarantinedFlash[];
+  diagnostics: SchemaDiagnostic[];
+}
+
+export interface FlashFeedCursor {
+  fingerprint: string;
+  highWaterMark: number;
+  updatedAt: string;
+}
+
+export interface FlashFeedDelta {
+  response: ValidatedFlashInvaderResponse;
+  fingerprint: string;
+  previousFingerprint: string | null;
+  // Same flash id set as the last committed response
+  unchanged: boolean;
+  previousHighWaterMark: number | null;
+  highWaterMark: number;
+  // Flashes above the previous high-water mark, and those at or below it not stored with an ipfs_cid yet
+  newFlashes: FlashInvaderResponse;
+}
+
+export type FlashFetchFailureKind =
+  | "blocked" // 401/403 and other 4xx refusals
+  | "rate_limited" // 429
+  | "proxy_auth" // 407 on every proxy attempt
+  | "timeout"
+  | "malformed" // payload failed schema validation or had empty collections
+  | "upstream_5xx"
+  | "network" // no HTTP response: connection refused/reset, DNS
+  | "circuit_open"; // not attempted, the circuit breaker is open
+
+export interface ApiNotBefore {
+  // Epoch ms before which the API must not be called
+  until: number;
+  status: number;
+  // "header" when the delay came from Retry-After/RateLimit-Reset, "default" otherwise
+  source: "header" | "default";
+  setAt: string;
+}
+
+export interface FlashFetchInfo {
+  durationMs: number;
+  // Proxy key of the last attempt, null for direct connections
+  proxy: string | null;
+  // Number of proxies tried (more than one only after 407s)
+  attempts: number;
+  status?: number;
+}
+
+export interface FlashFetchSuccess extends FlashFetchInfo {
+  kind: "ok";
+  response: ValidatedFlashInvaderResponse;
+}
+
+export interface FlashFetchFailure extends FlashFetchInfo {
+  kind: FlashFetchFailureKind;
+  error: string;
+  diagnostics?: SchemaDiagnostic[];
+  // Set when a 429/503 asked us to back off
+  notBefore?: ApiNotBefore;
+}
+
+export type FlashFetchResult = FlashFetchSuccess | FlashFetchFailure;
+
+export type FlashFeedResult = (FlashFetchSuccess & { delta: FlashFeedDelta }) | FlashFetchFailure;
@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Flash } from "../database/invader-flashes/types";
+import { FlashJournal, FlashJournalOptions } from ".";
+
+jest.mock("../metrics", () => ({
+  flashJournalBytes: { set: jest.fn() },
+  flashJournalEntries: { set: jest.fn() },
+  flashJournalDroppedTotal: { inc: jest.fn() },
+}));
+
+const DB_WRITE_FAILURE = { stage: "db_write" as const, error: "connection refused" };
+
+function flash(flashId: number): Flash {
+  return {
+    flash_id: flashId,
+    city: "Paris",
+    player: "invader",
+    img: `/img/${flashId}.jpg`,
+    ipfs_cid: "",
+    text: "",
+    timestamp: 1760000000,
+    flash_count: "1",
+  };
+}
+
+function journalLines(dir: string): { op: string; id: string }[] {
+  return fs
+    .readFileSync(path.join(dir, "journal.ndjson"), "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("FlashJournal", () => {
+  let dir: string;
+  let options: FlashJournalOptions;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "flash-journal-"));
+    options = { dir, retryBaseMs: 1000, retryMaxMs: 8000, maxAttempts: 3, maxBytes: 1024 * 1024, compactAfter: 1000 };
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("acknowledges entries one by one, across restarts", async () => {
+    const journal = new FlashJournal(options);
+    const [first, second] = await journal.append([flash(1), flash(2)], DB_WRITE_FAILURE);
+
+    await journal.ack([first]);
+
+    expect(journal.pendingEntries().map((entry) => entry.flash.flash_id)).toEqual([2]);
+    expect(journalLines(dir).map((line) => line.op)).toEqual(["add", "add", "ack"]);
+
+    const reloaded = new FlashJournal(options);
+    expect(reloaded.pendingEntries()).toEqual([second]);
+  });
+
+  it("ignores entries that are already acknowledged", async () => {
+    const journal = new FlashJournal(options);
+    const [entry] = await journal.append([flash(1), flash(2)], DB_WRITE_FAILURE);
+
+    await journal.ack([entry]);
+    await journal.ack([entry]);
+
+    expect(journalLines(dir).filter((line) => line.op === "ack")).toHaveLength(1);
+  });
+
+  it("replaces retried entries with one more attempt and a longer backoff", async () => {
+    const journal = new FlashJournal(options);
+    const now = Date.now();
+    const [entry] = await journal.append([flash(1)], DB_WRITE_FAILURE);
+    const [retried] = await journal.append([flash(1)], { stage: "publish", error: "nack" }, [entry]);
+
+    expect(journal.pendingEntries()).toEqual([retried]);
+    expect(retried).toMatchObject({ stage: "publish", attempts: 2, error: "nack" });
+    expect(Date.parse(retried.next_attempt_at) - now).toBeGreaterThanOrEqual(2000);
+    expect(journal.dueEntries(now)).toEqual([]);
+    expect(journal.dueEntries(now + 60_000)).toEqual([retried]);
+  });
+
+  it("caps the backoff and reports entries out of attempts", async () => {
+    const journal = new FlashJournal(options);
+    let [entry] = await journal.append([flash(1)], DB_WRITE_FAILURE);
+    for (let i = 0; i < 4; i++) {
+      [entry] = await journal.append([flash(1)], DB_WRITE_FAILURE, [entry]);
+    }
+
+    expect(entry.attempts).toBe(5);
+    expect(Date.parse(entry.next_attempt_at) - Date.parse(entry.appended_at)).toBe(8000);
+    expect(journal.isExhausted(entry)).toBe(true);
+    expect(new FlashJournal({ ...options, maxAttempts: 0 }).isExhausted(entry)).toBe(false);
+  });
+
+  it("compacts acknowledged lines away", async () => {
+    const journal = new FlashJournal({ ...options, compactAfter: 4 });
+    const entries = await journal.append([flash(1), flash(2), flash(3)], DB_WRITE_FAILURE);
+
+    await journal.ack([entries[0]]);
+    expect(journalLines(dir)).toHaveLength(4);
+
+    await journal.ack([entries[1]]);
+    expect(journalLines(dir)).toEqual([expect.objectContaining({ op: "add", id: entries[2].id })]);
+    expect(fs.existsSync(path.join(dir, "journal.ndjson.tmp"))).toBe(false);
+  });
+
+  it("empties the file once every entry is acknowledged", async () => {
+    const journal = new FlashJournal(options);
+    const entries = await journal.append([flash(1), flash(2)], DB_WRITE_FAILURE);
+
+    await journal.ack(entries);
+
+    expect(fs.readFileSync(path.join(dir, "journal.ndjson"), "utf-8")).toBe("");
+    expect(journal.pendingCount()).toBe(0);
+  });
+
+  it("skips a line torn by a crash and keeps the rest", async () => {
+    const [kept] = await new FlashJournal(options).append([flash(1)], DB_WRITE_FAILURE);
+    fs.appendFileSync(path.join(dir, "journal.ndjson"), '{"op":"add","id":"torn","flash":{"flash_');
+
+    const reloaded = new FlashJournal(options);
+
+    expect(reloaded.pendingEntries()).toEqual([kept]);
+    expect(journalLines(dir)).toEqual([expect.objectContaining({ id: kept.id })]);
+  });
+
+  it("drops the oldest entries when the journal outgrows maxBytes", async () => {
+    const journal = new FlashJournal(options);
+    const [oldest] = await journal.append([flash(1)], DB_WRITE_FAILURE);
+    const size = fs.statSync(path.join(dir, "journal.ndjson")).size;
+
+    const bounded = new FlashJournal({ ...options, maxBytes: size * 2 + 10 });
+    await bounded.append([flash(2), flash(3)], DB_WRITE_FAILURE);
+
+    expect(bounded.pendingEntries().map((entry) => entry.flash.flash_id)).toEqual([2, 3]);
+    expect(bounded.pendingEntries()).not.toContainEqual(oldest);
+  });
+
+  it("imports failed-flashes files written before the journal", () => {
+    fs.writeFileSync(
+      path.join(dir, "failed-flashes-1.json"),
+      JSON.stringify({ timestamp: "2026-10-01T00:00:00.000Z", errorContext: "database-write-failure", flashes: [flash(7)] }),
+    );
+
+    const journal = new FlashJournal(options);
+
+    expect(journal.pendingEntries()).toEqual([
+      expect.objectContaining({ flash: flash(7), stage: "db_write", attempts: 1, error: "database-write-failure" }),
+    ]);
+    expect(fs.existsSync(path.join(dir, "failed-flashes-1.json"))).toBe(false);
+  });
+
+  it("throws when the journal can't be written", async () => {
+    const journal = new FlashJournal(options);
+    journal.pendingCount();
+    fs.mkdirSync(path.join(dir, "journal.ndjson"));
+
+    await expect(journal.append([flash(1)], DB_WRITE_FAILURE)).rejects.toThrow("Failed to journal 1 flashes");
+    expect(journal.pendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,378 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { Flash } from "../database/invader-flashes/types";
+import { flashJournalBytes, flashJournalDroppedTotal, flashJournalEntries } from "../metrics";
+
+export interface FlashJournalOptions {
+  dir: string;
+  // Backoff before an entry is retried: retryBaseMs * 2^(attempts - 1), capped at retryMaxMs
+  retryBaseMs: number;
+  retryMaxMs: number;
+  // Failed attempts after which an entry is quarantined instead of retried (0 retries forever)
+  maxAttempts: number;
+  // Past this size the oldest entries are dropped (after compacting)
+  maxBytes: number;
+  // Acknowledged lines tolerated before the file is rewritten without them
+  compactAfter: number;
+}
+
+// Where processing a flash failed, and so where its retry resumes:
+// db_write: the write to Postgres failed, the flash is written again
+// publish: the flash and its outbox events are stored, only the publish is left
+// unexpected: failed before the write, the flash goes through the whole path again
+export type RetryStage = "db_write" | "publish" | "unexpected";
+
+export interface JournalFailure {
+  stage: RetryStage;
+  error: string;
+}
+
+// A flash that failed to be processed, waiting to be retried
+export interface JournalEntry {
+  id: string;
+  flash: Flash;
+  stage: RetryStage;
+  // Failed attempts so far
+  attempts: number;
+  error: string | null;
+  // ISO 8601
+  appended_at: string;
+  next_attempt_at: string;
+}
+
+type JournalRecord = ({ op: "add" } & JournalEntry) | { op: "ack"; id: string; acked_at: string };
+
+const JOURNAL_FILE = "journal.ndjson";
+
+/**
+ * Append-only NDJSON journal of flashes that failed to be processed, tagged with the stage
+ * that failed. Appends are fsynced before they return. Each entry is acknowledged on its
+ * own once its flash is handled, quarantined or journaled again, so a retry only removes
+ * what it handled. Acknowledged lines are dropped by compaction (temp file, fsync, rename).
+ */
+export class FlashJournal {
+  private options: FlashJournalOptions;
+  private file: string;
+  // Unacknowledged entries, oldest first
+  private pending = new Map<string, JournalEntry>();
+  // Lines compaction would remove: acknowledged adds and their acks
+  private deadLines = 0;
+  private sizeBytes = 0;
+  private loaded = false;
+
+  constructor(options: FlashJournalOptions = flashJournalOptionsFromEnv()) {
+    this.options = options;
+    this.file = path.join(options.dir, JOURNAL_FILE);
+  }
+
+  /**
+   * Journal flashes that failed at `failure.stage`. `replaces` are the entries they were
+   * retried from: the new entries count one more attempt (and back off longer) and the old
+   * ones are acknowledged, only after the new ones are on disk. Throws if the journal
+   * couldn't be written: the flashes are then stored nowhere and the caller must not move on.
+   */
+  public async append(flashes: Flash[], failure: JournalFailure, replaces: JournalEntry[] = []): Promise<JournalEntry[]> {
+    this.load();
+    if (flashes.length === 0) {
+      await this.ack(replaces);
+      return [];
+    }
+
+    const previousAttempts = new Map<number, number>();
+    for (const entry of replaces) {
+      const flashId = Number(entry.flash.flash_id);
+      previousAttempts.set(flashId, Math.max(previousAttempts.get(flashId) ?? 0, entry.attempts));
+    }
+
+    const now = Date.now();
+    const entries: JournalEntry[] = flashes.map((flash) => {
+      const attempts = (previousAttempts.get(Number(flash.flash_id)) ?? 0) + 1;
+      return {
+        id: randomUUID(),
+        flash: toJournalFlash(flash),
+        stage: failure.stage,
+        attempts,
+        error: failure.error,
+        appended_at: new Date(now).toISOString(),
+        next_attempt_at: new Date(now + this.backoffMs(attempts)).toISOString(),
+      };
+    });
+
+    try {
+      this.write(entries.map((entry) => ({ op: "add", ...entry })));
+    } catch (writeError) {
+      console.error(`[FlashJournal] Failed to journal ${flashes.length} flashes:`, writeError);
+      throw new Error(`Failed to journal ${flashes.length} flashes: ${(writeError as Error).message}`);
+    }
+
+    for (const entry of entries) {
+      this.pending.set(entry.id, entry);
+    }
+    console.log(`[FlashJournal] Journaled ${entries.length} flashes failed at ${failure.stage}: ${failure.error}`);
+    console.log(`[FlashJournal] Flash IDs: ${flashes.map((f) => f.flash_id).join(", ")}`);
+
+    await this.ack(replaces);
+    this.enforceMaxBytes();
+    this.updateGauges();
+    return entries;
+  }
+
+  /**
+   * Mark entries as handled; entries already acknowledged are ignored
+   */
+  public async ack(entries: JournalEntry[]): Promise<void> {
+    this.load();
+    const acked = entries.filter((entry) => this.pending.has(entry.id));
+    if (acked.length === 0) return;
+
+    for (const entry of acked) {
+      this.pending.delete(entry.id);
+    }
+    this.deadLines += acked.length * 2;
+
+    try {
+      const ackedAt = new Date().toISOString();
+      this.write(acked.map((entry) => ({ op: "ack", id: entry.id, acked_at: ackedAt })));
+    } catch (error) {
+      // Not durable: after a restart these entries are retried once more (writes are idempotent)
+      console.error(`[FlashJournal] Failed to acknowledge ${acked.length} entries:`, error);
+    }
+
+    if (this.pending.size === 0 || this.deadLines >= this.options.compactAfter) {
+      this.compact();
+    }
+    this.updateGauges();
+  }
+
+  /**
+   * Unacknowledged entries, oldest first
+   */
+  public pendingEntries(): JournalEntry[] {
+    this.load();
+    return [...this.pending.values()];
+  }
+
+  /**
+   * Unacknowledged entries whose backoff is over, oldest first
+   */
+  public dueEntries(now: number = Date.now()): JournalEntry[] {
+    return this.pendingEntries().filter((entry) => Date.parse(entry.next_attempt_at) <= now);
+  }
+
+  /**
+   * The entry failed maxAttempts times and should be quarantined rather than retried
+   */
+  public isExhausted(entry: JournalEntry): boolean {
+    return this.options.maxAttempts > 0 && entry.attempts >= this.options.maxAttempts;
+  }
+
+  public pendingCount(): number {
+    this.load();
+    return this.pending.size;
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    fs.mkdirSync(this.options.dir, { recursive: true });
+
+    let corrupt = 0;
+    if (fs.existsSync(this.file)) {
+      const content = fs.readFileSync(this.file, "utf-8");
+      this.sizeBytes = Buffer.byteLength(content);
+
+      for (const line of content.split("\n")) {
+        if (line.trim() === "") continue;
+
+        let record: JournalRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // A write torn by a crash; the entry was never acknowledged to the caller
+          corrupt++;
+          continue;
+        }
+
+        if (record.op === "add") {
+          const { op, ...entry } = record;
+          // Entries written before stages and backoff were recorded
+          this.pending.set(entry.id, {
+            ...entry,
+            stage: entry.stage ?? "db_write",
+            next_attempt_at: entry.next_attempt_at ?? entry.appended_at,
+          });
+        } else if (record.op === "ack" && this.pending.delete(record.id)) {
+          this.deadLines += 2;
+        } else {
+          this.deadLines++;
+        }
+      }
+    }
+
+    if (corrupt > 0) {
+      console.warn(`[FlashJournal] Skipped ${corrupt} unreadable line(s) in ${this.file}`);
+    }
+    this.importLegacyFiles();
+    if (corrupt > 0 || this.deadLines > 0) {
+      this.compact();
+    }
+    if (this.pending.size > 0) {
+      console.log(`[FlashJournal] ${this.pending.size} failed flashes waiting to be retried`);
+    }
+    this.updateGauges();
+  }
+
+  /**
+   * Move failed-flashes-*.json files written before the journal into it
+   */
+  private importLegacyFiles(): void {
+    const filenames = fs.readdirSync(this.options.dir).filter((name) => name.endsWith(".json"));
+
+    for (const filename of filenames) {
+      const filepath = path.join(this.options.dir, filename);
+      try {
+        const data = JSON.parse(fs.readFileSync(filepath, "utf-8"));
+        const appendedAt = data.timestamp ?? new Date().toISOString();
+        // Those files only ever held failed database writes
+        const entries: JournalEntry[] = (data.flashes as (Flash & { attempts?: number })[]).map((flash) => ({
+          id: randomUUID(),
+          flash: toJournalFlash(flash),
+          stage: "db_write",
+          attempts: flash.attempts ?? 1,
+          error: data.errorContext ?? null,
+          appended_at: appendedAt,
+          next_attempt_at: appendedAt,
+        }));
+
+        this.write(entries.map((entry) => ({ op: "add", ...entry })));
+        for (const entry of entries) {
+          this.pending.set(entry.id, entry);
+        }
+        fs.unlinkSync(filepath);
+        console.log(`[FlashJournal] Imported ${entries.length} failed flashes from ${filename}`);
+      } catch (error) {
+        console.error(`[FlashJournal] Failed to import ${filename}, leaving it in place:`, error);
+      }
+    }
+  }
+
+  private write(records: JournalRecord[]): void {
+    const data = records.map((record) => `${JSON.stringify(record)}\n`).join("");
+    const fd = fs.openSync(this.file, "a");
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.sizeBytes += Buffer.byteLength(data);
+  }
+
+  /**
+   * Rewrite the file with only the pending entries. The rename is atomic, so a crash
+   * leaves either the old or the new journal.
+   */
+  private compact(): void {
+    const data = [...this.pending.values()].map((entry) => `${JSON.stringify({ op: "add", ...entry })}\n`).join("");
+    const tmp = `${this.file}.tmp`;
+
+    try {
+      const fd = fs.openSync(tmp, "w");
+      try {
+        fs.writeSync(fd, data);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tmp, this.file);
+      this.fsyncDir();
+    } catch (error) {
+      console.error("[FlashJournal] Compaction failed, keeping the current journal:", error);
+      return;
+    }
+
+    this.sizeBytes = Buffer.byteLength(data);
+    this.deadLines = 0;
+  }
+
+  // Makes the rename durable; not supported on every platform
+  private fsyncDir(): void {
+    try {
+      const fd = fs.openSync(this.options.dir, "r");
+      try {
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {}
+  }
+
+  /**
+   * Keep the file under maxBytes: compact, then drop the oldest entries if that wasn't enough
+   */
+  private enforceMaxBytes(): void {
+    const { maxBytes } = this.options;
+    if (this.sizeBytes <= maxBytes) return;
+
+    if (this.deadLines > 0) this.compact();
+    if (this.sizeBytes <= maxBytes) return;
+
+    const dropped: JournalEntry[] = [];
+    let size = this.sizeBytes;
+    for (const entry of this.pending.values()) {
+      if (size <= maxBytes) break;
+      size -= Buffer.byteLength(`${JSON.stringify({ op: "add", ...entry })}\n`);
+      dropped.push(entry);
+    }
+    for (const entry of dropped) {
+      this.pending.delete(entry.id);
+    }
+    this.compact();
+
+    flashJournalDroppedTotal.inc(dropped.length);
+    console.error(
+      `[FlashJournal] Journal outgrew ${maxBytes} bytes, dropped the ${dropped.length} oldest failed flashes: ${dropped.map((e) => e.flash.flash_id).join(", ")}`,
+    );
+  }
+
+  private backoffMs(attempts: number): number {
+    return Math.min(this.options.retryBaseMs * 2 ** (attempts - 1), this.options.retryMaxMs);
+  }
+
+  private updateGauges(): void {
+    flashJournalEntries.set(this.pending.size);
+    flashJournalBytes.set(this.sizeBytes);
+  }
+}
+
+/**
+ * Only the flash's own fields, whatever the caller's object carries
+ */
+function toJournalFlash(flash: Flash): Flash {
+  return {
+    flash_id: flash.flash_id,
+    city: flash.city,
+    player: flash.player,
+    img: flash.img,
+    ipfs_cid: flash.ipfs_cid,
+    text: flash.text,
+    timestamp: flash.timestamp,
+    flash_count: flash.flash_count,
+  };
+}
+
+export function flashJournalOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FlashJournalOptions {
+  return {
+    dir: env.FLASH_JOURNAL_DIR || path.join(process.cwd(), "failed-flashes"),
+    retryBaseMs: parseInt(env.FLASH_RETRY_BASE_MS || "60000"),
+    retryMaxMs: parseInt(env.FLASH_RETRY_MAX_MS || "3600000"),
+    maxAttempts: parseInt(env.FLASH_RETRY_MAX_ATTEMPTS || "5"),
+    maxBytes: parseInt(env.FLASH_JOURNAL_MAX_BYTES || "52428800"),
+    compactAfter: parseInt(env.FLASH_JOURNAL_COMPACT_AFTER || "1000"),
+  };
+}
+
+// Shared by store-flashes and the health check, which read the same file
+export const flashJournal = new FlashJournal();
@@ -0,0 +1,147 @@
+import { FlashProcessingDb } from "../database/flash-processing";
+import { RabbitConsumer, ConsumeOutcome } from "../rabbitmq/consumer";
+import { parseFlashImageResult } from "../rabbitmq/envelope";
+import { rabbitConnectionOptionsFromEnv } from "../rabbitmq/connection";
+import { flashQuarantine } from "../quarantine";
+import { imageResultsTotal, flashProcessingFlashes } from "../metrics";
+
+export interface FlashProcessingOptions {
+  // Queue the image processor replies on; null disables the consumer
+  resultQueue: string | null;
+  prefetch: number;
+  // Failures after which a flash is no longer published
+  maxFailures: number;
+  // Delay before retrying a result that couldn't be stored
+  retryDelayMs: number;
+}
+
+const GAUGE_REFRESH_MS = 60_000;
+
+/**
+ * Keeps flash_processing up to date: publishes are counted by the publishers, results
+ * come from the image processor's reply queue. Flashes whose image permanently failed
+ * are left out of "existing flashes without ipfs_cid" republishing.
+ */
+export class FlashProcessingTracker {
+  private options: FlashProcessingOptions;
+  private db: FlashProcessingDb;
+  private consumer: RabbitConsumer | null = null;
+  private gaugesRefreshedAt = 0;
+
+  constructor(options: FlashProcessingOptions = flashProcessingOptionsFromEnv(), db?: FlashProcessingDb) {
+    this.options = options;
+    this.db = db ?? new FlashProcessingDb();
+  }
+
+  public startConsumer(): void {
+    const { resultQueue } = this.options;
+    if (!resultQueue) {
+      console.log("[FlashProcessing] RABBITMQ_RESULT_QUEUE is empty, not consuming image processing results");
+      return;
+    }
+    if (this.consumer) return;
+
+    const { reconnectBaseMs, reconnectMaxMs } = rabbitConnectionOptionsFromEnv();
+    this.consumer = new RabbitConsumer(
+      process.env.RABBITMQ_URL!,
+      {
+        queue: resultQueue,
+        prefetch: this.options.prefetch,
+        reconnectBaseMs,
+        reconnectMaxMs,
+        retryDelayMs: this.options.retryDelayMs,
+      },
+      (body) => this.handleResult(body),
+    );
+    this.consumer.start();
+  }
+
+  public async stopConsumer(): Promise<void> {
+    await this.consumer?.stop();
+    this.consumer = null;
+  }
+
+  /**
+   * Store one reply. Throws when the database is unavailable, so the message is retried.
+   */
+  public async handleResult(body: unknown): Promise<ConsumeOutcome> {
+    let result;
+    try {
+      result = parseFlashImageResult(body);
+    } catch (error) {
+      imageResultsTotal.inc({ result: "invalid" });
+      console.error(`[FlashProcessing] Rejecting invalid image result: ${(error as Error).message}`);
+      return "reject";
+    }
+
+    if (result.status === "pinned") {
+      await this.db.recordPinned(result.flash_id, result.ipfs_cid!);
+      imageResultsTotal.inc({ result: "pinned" });
+    } else {
+      const error = result.error || "unknown error";
+      const { status, failures } = await this.db.recordFailure(result.flash_id, error, result.permanent === true, this.options.maxFailures);
+      imageResultsTotal.inc({ result: status === "permanently_failed" ? "permanently_failed" : "failed" });
+      if (status === "permanently_failed") {
+        console.warn(`[FlashProcessing] Flash ${result.flash_id} permanently failed, it won't be published again: ${error}`);
+        await flashQuarantine.quarantine([
+          {
+            flashId: result.flash_id,
+            reason: "processing_failed",
+            attempts: failures,
+            error,
+            details: { permanent: result.permanent === true, request_message_id: result.request_message_id ?? null },
+          },
+        ]);
+      } else {
+        console.log(`[FlashProcessing] Flash ${result.flash_id} failed processing: ${error}`);
+      }
+    }
+
+    await this.refreshGauges();
+    return "ack";
+  }
+
+  /**
+   * Count publishes; never throws, a missed count only affects the attempts column
+   */
+  public async recordPublished(flashIds: number[]): Promise<void> {
+    try {
+      await this.db.recordPublished(flashIds);
+    } catch (error) {
+      console.error(`[FlashProcessing] Failed to record ${flashIds.length} publishes:`, error);
+    }
+  }
+
+  /**
+   * `flashIds` minus the flashes whose image permanently failed
+   */
+  public async withoutPermanentFailures(flashIds: number[]): Promise<number[]> {
+    const failed = new Set(await this.db.getPermanentlyFailedIds(flashIds));
+    return flashIds.filter((flashId) => !failed.has(flashId));
+  }
+
+  private async refreshGauges(): Promise<void> {
+    if (Date.now() - this.gaugesRefreshedAt < GAUGE_REFRESH_MS) return;
+    this.gaugesRefreshedAt = Date.now();
+
+    try {
+      const counts = await this.db.countByStatus();
+      for (const [status, count] of Object.entries(counts)) {
+        flashProcessingFlashes.set({ status }, count);
+      }
+    } catch (error) {
+      console.error("[FlashProcessing] Failed to read flash_processing counts:", error);
+    }
+  }
+}
+
+export function flashProcessingOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FlashProcessingOptions {
+  return {
+    resultQueue: env.RABBITMQ_RESULT_QUEUE ?? (env.RABBITMQ_QUEUE ? `${env.RABBITMQ_QUEUE}.results` : null),
+    prefetch: parseInt(env.RABBITMQ_RESULT_PREFETCH || "20"),
+    maxFailures: parseInt(env.IMAGE_MAX_FAILURES || "5"),
+    retryDelayMs: parseInt(env.RABBITMQ_RESULT_RETRY_DELAY_MS || "5000"),
+  };
+}
+
+export const flashProcessing = new FlashProcessingTracker();
@@ -1,6 +1,8 @@
 import { Pool } from "pg";
 import { connect } from "amqplib";
-import { DiskPersistence } from "../disk-persistence";
+import { flashJournal } from "../flash-journal";
+import { ProxyPool, proxyPool } from "../proxy-pool";
+import { CircuitBreaker, spaceInvadersCircuitBreaker } from "../circuit-breaker";
 
 export interface HealthStatus {
     status: "healthy" | "degraded" | "unhealthy";
@@ -10,11 +12,18 @@ export interface HealthStatus {
         database: ServiceHealth;
         rabbitmq: ServiceHealth;
         diskPersistence: ServiceHealth;
+        proxies: ServiceHealth;
+        spaceInvadersApi: ServiceHealth;
     };
     metrics: {
         memoryUsage: NodeJS.MemoryUsage;
         processUptime: number;
         failedFlashesCount: number;
+        proxies: {
+            total: number;
+            available: number;
+            skipped: number;
+        };
     };
 }
 
@@ -31,6 +40,8 @@ export class HealthChecker {
     constructor(
         private dbPool: Pool,
         private rabbitmqUrl: string,
+        private proxies: ProxyPool = proxyPool,
+        private apiCircuit: CircuitBreaker = spaceInvadersCircuitBreaker,
     ) {
         this.startTime = Date.now();
     }
@@ -44,16 +55,21 @@ export class HealthChecker {
         console.log("[HealthChecker] Starting health check...");
 
         // Run all service checks in parallel for speed
-        const [database, rabbitmq, diskPersistence] = await Promise.allSettled([
-            this.checkDatabase(),
-            this.checkRabbitMQ(),
-            this.checkDiskPersistence(),
-        ]);
+        const [database, rabbitmq, diskPersistence, proxies, spaceInvadersApi] =
+            await Promise.allSettled([
+                this.checkDatabase(),
+                this.checkRabbitMQ(),
+                this.checkDiskPersistence(),
+                this.checkProxyPool(),
+                this.checkSpaceInvadersApi(),
+            ]);
 
         const services = {
             database: this.getServiceResult(database),
             rabbitmq: this.getServiceResult(rabbitmq),
             diskPersistence: this.getServiceResult(diskPersistence),
+            proxies: this.getServiceResult(proxies),
+            spaceInvadersApi: this.getServiceResult(spaceInvadersApi),
         };
 
         // Calculate overall status
@@ -68,7 +84,8 @@ export class HealthChecker {
             overallStatus = "degraded";
         }
 
-        const diskPersistence_instance = new DiskPersistence();
+        const proxySnapshot = this.proxies.getSnapshot();
+        const skippedProxies = proxySnapshot.filter((p) => p.skipped).length;
 
         const health: HealthStatus = {
             status: overallStatus,
@@ -78,8 +95,12 @@ export class HealthChecker {
             metrics: {
                 memoryUsage: process.memoryUsage(),
                 processUptime: process.uptime(),
-                failedFlashesCount:
-                    diskPersistence_instance.getFailedFlashesCount(),
+                failedFlashesCount: flashJournal.pendingCount(),
+                proxies: {
+                    total: proxySnapshot.length,
+                    available: proxySnapshot.length - skippedProxies,
+                    skipped: skippedProxies,
+                },
             },
         };
 
@@ -177,14 +198,13 @@ export class HealthChecker {
     }
 
     /**
-     * Check disk persistence system
+     * Check the journal of flashes that failed to be written
      */
     private async checkDiskPersistence(): Promise<ServiceHealth> {
         const startTime = Date.now();
 
         try {
-            const diskPersistence = new DiskPersistence();
-            const failedCount = diskPersistence.getFailedFlashesCount();
+            const failedCount = flashJournal.pendingCount();
 
             const responseTime = Date.now() - startTime;
 
@@ -206,6 +226,58 @@ export class HealthChecker {
         }
     }
 
+    /**
+     * Check proxy pool health (proxies currently in cooldown)
+     */
+    private async checkProxyPool(): Promise<ServiceHealth> {
+        const snapshot = this.proxies.getSnapshot();
+        const skipped = snapshot.filter((p) => p.skipped);
+
+        // Direct connections are allowed, so an empty pool is not a failure
+        let status: ServiceHealth["status"] = "healthy";
+        if (snapshot.length > 0 && skipped.length === snapshot.length) {
+            status = "unhealthy";
+        } else if (skipped.length > 0) {
+            status = "degraded";
+        }
+
+        return {
+            status,
+            error:
+                skipped.length > 0
+                    ? `${skipped.length}/${snapshot.length} proxies cooling down: ${skipped.map((p) => p.key).join(", ")}`
+                    : undefined,
+            lastCheck: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Check the Space Invaders API circuit breaker
+     */
+    private async checkSpaceInvadersApi(): Promise<ServiceHealth> {
+        await this.apiCircuit.restore();
+        const circuit = this.apiCircuit.getSnapshot();
+
+        let status: ServiceHealth["status"] = "healthy";
+        let error: string | undefined;
+        if (circuit.state === "open") {
+            status = "unhealthy";
+            error = `Circuit open after ${circuit.consecutiveFailures} consecutive failures (${circuit.lastError}), next attempt at ${new Date(circuit.nextAttemptAt ?? 0).toISOString()}`;
+        } else if (circuit.state === "half_open") {
+            status = "degraded";
+            error = "Circuit half-open, probing the API";
+        } else if (circuit.consecutiveFailures > 0) {
+            status = "degraded";
+            error = `${circuit.consecutiveFailures} consecutive failures (${circuit.lastError})`;
+        }
+
+        return {
+            status,
+            error,
+            lastCheck: new Date().toISOString(),
+        };
+    }
+
     /**
      * Quick health check for endpoints that need fast response
      */
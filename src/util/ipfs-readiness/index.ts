@@ -0,0 +1,69 @@
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { ipfsPendingFlashes, ipfsReadinessSeconds } from "../metrics";
+
+export interface IpfsReadinessOptions {
+  // Give up waiting after this long and let FlashSync run with whatever is pinned. Keep it
+  // well under the combined-sync interval, or every run overlaps the next tick.
+  deadlineMs: number;
+  pollIntervalMs: number;
+}
+
+export interface IpfsReadinessResult {
+  ready: boolean;
+  elapsedMs: number;
+  pinnedCount: number;
+  pendingFlashIds: number[];
+}
+
+/**
+ * Polls flashes.ipfs_cid for a set of just-published flashes until the image
+ * processor has pinned all of them or the deadline passes.
+ */
+export class IpfsReadinessWaiter {
+  private options: IpfsReadinessOptions;
+  private flashesDb: PostgresFlashesDb;
+
+  constructor(options: Partial<IpfsReadinessOptions> = {}, flashesDb?: PostgresFlashesDb) {
+    this.options = {
+      deadlineMs: options.deadlineMs ?? parseInt(process.env.IPFS_READINESS_DEADLINE_MS || "180000"),
+      pollIntervalMs: options.pollIntervalMs ?? parseInt(process.env.IPFS_READINESS_POLL_MS || "10000"),
+    };
+    this.flashesDb = flashesDb ?? new PostgresFlashesDb();
+  }
+
+  public async waitForPinned(flashIds: number[]): Promise<IpfsReadinessResult> {
+    const startTime = Date.now();
+    const deadline = startTime + this.options.deadlineMs;
+    let pending = [...new Set(flashIds)];
+
+    while (pending.length > 0) {
+      try {
+        pending = await this.flashesDb.getIdsWithoutIpfs(pending);
+      } catch (error) {
+        console.error("[IpfsReadinessWaiter] Failed to check ipfs_cid status:", error);
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (pending.length === 0 || remainingMs <= 0) {
+        break;
+      }
+
+      // The last check lands on the deadline itself
+      const waitMs = Math.min(this.options.pollIntervalMs, remainingMs);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    const elapsedMs = Date.now() - startTime;
+    const ready = pending.length === 0;
+
+    ipfsReadinessSeconds.observe({ outcome: ready ? "ready" : "deadline" }, elapsedMs / 1000);
+    ipfsPendingFlashes.set(pending.length);
+
+    return {
+      ready,
+      elapsedMs,
+      pinnedCount: new Set(flashIds).size - pending.length,
+      pendingFlashIds: pending,
+    };
+  }
+}
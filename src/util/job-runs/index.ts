@@ -0,0 +1,96 @@
+import { JobRunsDb } from "../database/job-runs";
+import { JobRunCounts } from "../database/job-runs/types";
+
+/**
+ * What a task run did, returned from CronTask.task() and stored in job_runs
+ */
+export interface JobRunReport {
+  // Set when the run stopped early on purpose (e.g. "off_peak_hours", "circuit_open")
+  skipped?: string;
+  counts?: Partial<JobRunCounts>;
+  details?: Record<string, unknown>;
+}
+
+const EMPTY_COUNTS: JobRunCounts = { fetched: 0, written: 0, published: 0, cast: 0, failed: 0 };
+
+/**
+ * Sum the counts of several steps into one report. The first skip reason wins.
+ */
+export function mergeJobRunReports(...reports: (JobRunReport | void)[]): JobRunReport {
+  const counts: JobRunCounts = { ...EMPTY_COUNTS };
+  const merged: JobRunReport = { counts };
+
+  for (const report of reports) {
+    if (!report) continue;
+    merged.skipped = merged.skipped ?? report.skipped;
+    for (const key of Object.keys(EMPTY_COUNTS) as (keyof JobRunCounts)[]) {
+      counts[key] += report.counts?.[key] ?? 0;
+    }
+    if (report.details) {
+      merged.details = { ...merged.details, ...report.details };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Writes one job_runs row per run. Recording is best effort: a database
+ * problem is logged and never fails the job itself.
+ */
+export class JobRunRecorder {
+  private jobName: string;
+  private db: JobRunsDb;
+  private startedAt: Date | null = null;
+  private runId: number | null = null;
+
+  constructor(jobName: string, db?: JobRunsDb) {
+    this.jobName = jobName;
+    this.db = db ?? new JobRunsDb();
+  }
+
+  public async start(): Promise<void> {
+    this.startedAt = new Date();
+    try {
+      this.runId = await this.db.start(this.jobName, this.startedAt);
+    } catch (error) {
+      console.error(`[JobRunRecorder] Failed to record start of ${this.jobName}:`, error);
+    }
+  }
+
+  public async finish(report: JobRunReport | void): Promise<void> {
+    await this.complete(report?.skipped ? "skipped" : "success", report || {});
+  }
+
+  public async fail(error: unknown, report?: JobRunReport): Promise<void> {
+    await this.complete("failed", report ?? {}, error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Record a run that was skipped before it started (overlap, lock held elsewhere)
+   */
+  public async skip(reason: string): Promise<void> {
+    await this.complete("skipped", { skipped: reason });
+  }
+
+  private async complete(outcome: "success" | "skipped" | "failed", report: JobRunReport, error?: string): Promise<void> {
+    const completion = {
+      finishedAt: new Date(),
+      outcome,
+      skipReason: report.skipped,
+      counts: { ...EMPTY_COUNTS, ...report.counts },
+      error,
+      details: report.details,
+    };
+
+    try {
+      if (this.runId !== null) {
+        await this.db.finish(this.runId, completion);
+      } else {
+        this.runId = await this.db.insert(this.jobName, this.startedAt ?? completion.finishedAt, completion);
+      }
+    } catch (dbError) {
+      console.error(`[JobRunRecorder] Failed to record ${outcome} run of ${this.jobName}:`, dbError);
+    }
+  }
+}
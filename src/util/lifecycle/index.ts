@@ -0,0 +1,85 @@
+import type { CronTask } from "../cron-jobs/base";
+
+interface ShutdownHook {
+  name: string;
+  fn: () => Promise<void>;
+}
+
+/**
+ * Coordinates graceful shutdown on SIGTERM/SIGINT:
+ *   1. stop cron schedules and wait (up to taskTimeoutMs) for active runs to finish
+ *   2. run shutdown hooks in registration order (outbox relay, metrics server, AMQP, pg pool, tracing)
+ * Flashes written but not yet published wait in the outbox, so nothing needs persisting here.
+ */
+export class LifecycleManager {
+  private taskTimeoutMs: number;
+  private cronTasks: CronTask[] = [];
+  private hooks: ShutdownHook[] = [];
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(taskTimeoutMs: number = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || "60000")) {
+    this.taskTimeoutMs = taskTimeoutMs;
+  }
+
+  public registerCron(task: CronTask): void {
+    this.cronTasks.push(task);
+  }
+
+  public onShutdown(name: string, fn: () => Promise<void>): void {
+    this.hooks.push({ name, fn });
+  }
+
+  public isShuttingDown(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  public installSignalHandlers(): void {
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+      process.once(signal, () => {
+        console.log(`[Lifecycle] Received ${signal}, shutting down gracefully...`);
+        this.shutdown()
+          .then(() => process.exit(0))
+          .catch((error) => {
+            console.error("[Lifecycle] Shutdown failed:", error);
+            process.exit(1);
+          });
+      });
+    }
+  }
+
+  public shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.runShutdown();
+    }
+    return this.shutdownPromise;
+  }
+
+  private async runShutdown(): Promise<void> {
+    const startTime = Date.now();
+
+    for (const task of this.cronTasks) {
+      task.stop();
+    }
+
+    const idle = Promise.all(this.cronTasks.map((task) => task.waitForIdle())).then(() => true);
+    const timeout = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), this.taskTimeoutMs).unref());
+    if (await Promise.race([idle, timeout])) {
+      console.log(`[Lifecycle] Cron tasks finished in ${Date.now() - startTime}ms`);
+    } else {
+      console.warn(`[Lifecycle] Cron tasks still running after ${this.taskTimeoutMs}ms, continuing shutdown`);
+    }
+
+    for (const hook of this.hooks) {
+      try {
+        await hook.fn();
+        console.log(`[Lifecycle] Closed ${hook.name}`);
+      } catch (error) {
+        console.error(`[Lifecycle] Failed to close ${hook.name}:`, error);
+      }
+    }
+
+    console.log(`[Lifecycle] Shutdown complete in ${Date.now() - startTime}ms`);
+  }
+}
+
+export const lifecycle = new LifecycleManager();
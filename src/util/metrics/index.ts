@@ -6,6 +6,7 @@ import {
   Histogram,
   collectDefaultMetrics,
 } from "prom-client";
+import { proxyPool } from "../proxy-pool";
 
 // Create a new registry
 export const register = new Registry();
@@ -30,6 +31,20 @@ export const apiCallsTotal = new Counter({
   registers: [register],
 });
 
+export const cronRunsSkippedTotal = new Counter({
+  name: "invaders_bot_cron_runs_skipped_total",
+  help: "Cron ticks that did not run because a previous run was still active or another instance held the lock",
+  labelNames: ["task", "reason"],
+  registers: [register],
+});
+
+export const apiSchemaViolationsTotal = new Counter({
+  name: "invaders_bot_api_schema_violations_total",
+  help: "Schema violations found in Space Invaders API responses",
+  labelNames: ["field", "code"],
+  registers: [register],
+});
+
 export const syncSkippedTotal = new Counter({
   name: "invaders_bot_sync_skipped_total",
   help: "Number of sync runs skipped",
@@ -49,6 +64,73 @@ export const messagesFailedTotal = new Counter({
   registers: [register],
 });
 
+export const rabbitmqReconnectsTotal = new Counter({
+  name: "invaders_bot_rabbitmq_reconnects_total",
+  help: "Times the RabbitMQ connection was re-established after dropping",
+  registers: [register],
+});
+
+export const rabbitmqConnected = new Gauge({
+  name: "invaders_bot_rabbitmq_connected",
+  help: "Whether the publishing RabbitMQ connection is open (1) or not (0)",
+  registers: [register],
+});
+
+export const rabbitmqConsumerConnected = new Gauge({
+  name: "invaders_bot_rabbitmq_consumer_connected",
+  help: "Whether the consumer of a queue is connected (1) or not (0)",
+  labelNames: ["queue"],
+  registers: [register],
+});
+
+export const imageResultsTotal = new Counter({
+  name: "invaders_bot_image_results_total",
+  help: "Image processing results received, by outcome (pinned, failed, permanently_failed, invalid)",
+  labelNames: ["result"],
+  registers: [register],
+});
+
+export const flashProcessingFlashes = new Gauge({
+  name: "invaders_bot_flash_processing_flashes",
+  help: "Flashes per image processing status in flash_processing",
+  labelNames: ["status"],
+  registers: [register],
+});
+
+export const flashesQuarantinedTotal = new Counter({
+  name: "invaders_bot_flashes_quarantined_total",
+  help: "Flashes moved to quarantined_flashes, by reason (db_write_failed, publish_failed, unexpected_error, processing_failed, dead_lettered)",
+  labelNames: ["reason"],
+  registers: [register],
+});
+
+export const quarantinedFlashes = new Gauge({
+  name: "invaders_bot_quarantined_flashes",
+  help: "Flashes waiting in quarantined_flashes, by reason",
+  labelNames: ["reason"],
+  registers: [register],
+});
+
+export const flashJournalDroppedTotal = new Counter({
+  name: "invaders_bot_flash_journal_dropped_total",
+  help: "Failed flashes dropped from the journal because it outgrew FLASH_JOURNAL_MAX_BYTES",
+  registers: [register],
+});
+
+export const outboxEventsTotal = new Counter({
+  name: "invaders_bot_outbox_events_total",
+  help: "Outbox events handled by the relay",
+  labelNames: ["result"],
+  registers: [register],
+});
+
+export const backfillFlashesTotal = new Counter({
+  name: "invaders_bot_backfill_flashes_total",
+  help: "Flashes republished by a backfill",
+  labelNames: ["job", "result"],
+  registers: [register],
+});
+
 export const castsPublishedTotal = new Counter({
   name: "invaders_bot_casts_published_total",
   help: "Farcaster casts published",
@@ -61,6 +143,29 @@ export const castsFailedTotal = new Counter({
   registers: [register],
 });
 
+// Proxy metrics are labelled with the proxy key (host:port), never with credentials.
+// Direct connections use the label "direct".
+export const proxyRequestsTotal = new Counter({
+  name: "invaders_bot_proxy_requests_total",
+  help: "Requests to the Space Invaders API per proxy",
+  labelNames: ["proxy", "result"],
+  registers: [register],
+});
+
+export const proxyAuthFailuresTotal = new Counter({
+  name: "invaders_bot_proxy_auth_failures_total",
+  help: "Proxy authentication failures (HTTP 407) per proxy",
+  labelNames: ["proxy"],
+  registers: [register],
+});
+
+export const proxyTimeoutsTotal = new Counter({
+  name: "invaders_bot_proxy_timeouts_total",
+  help: "Request timeouts per proxy",
+  labelNames: ["proxy"],
+  registers: [register],
+});
+
 // ============================================
 // GAUGES
 // ============================================
@@ -89,6 +194,63 @@ export const lastFlashCount = new Gauge({
   registers: [register],
 });
 
+export const ipfsPendingFlashes = new Gauge({
+  name: "invaders_bot_ipfs_pending_flashes",
+  help: "Flashes from the last sync still waiting for an ipfs_cid when FlashSync started",
+  registers: [register],
+});
+
+export const apiNotBeforeTimestamp = new Gauge({
+  name: "invaders_bot_api_not_before_timestamp_seconds",
+  help: "Unix timestamp before which the Space Invaders API asked not to be called (0 = none)",
+  registers: [register],
+});
+
+export const outboxPendingEvents = new Gauge({
+  name: "invaders_bot_outbox_pending_events",
+  help: "Outbox events not yet published",
+  registers: [register],
+});
+
+export const outboxOldestPendingSeconds = new Gauge({
+  name: "invaders_bot_outbox_oldest_pending_seconds",
+  help: "Age of the oldest unpublished outbox event (0 when empty)",
+  registers: [register],
+});
+
+export const flashJournalEntries = new Gauge({
+  name: "invaders_bot_flash_journal_entries",
+  help: "Failed flashes in the journal waiting to be retried",
+  registers: [register],
+});
+
+export const flashJournalBytes = new Gauge({
+  name: "invaders_bot_flash_journal_bytes",
+  help: "Size of the failed flashes journal file",
+  registers: [register],
+});
+
+export const backfillRemainingFlashes = new Gauge({
+  name: "invaders_bot_backfill_remaining_flashes",
+  help: "Flashes the running backfill still has to publish (0 when idle)",
+  labelNames: ["job"],
+  registers: [register],
+});
+
+export const backfillCursorFlashId = new Gauge({
+  name: "invaders_bot_backfill_cursor_flash_id",
+  help: "flash_id of the last flash the backfill checkpointed",
+  labelNames: ["job"],
+  registers: [register],
+});
+
+export const circuitBreakerState = new Gauge({
+  name: "invaders_bot_circuit_breaker_state",
+  help: "Circuit breaker state (0 = closed, 1 = half-open, 2 = open)",
+  labelNames: ["name"],
+  registers: [register],
+});
+
 export const uptimeSeconds = new Gauge({
   name: "invaders_bot_uptime_seconds",
   help: "Process uptime in seconds",
@@ -113,6 +275,30 @@ export const syncDurationSeconds = new Histogram({
   registers: [register],
 });
 
+export const apiCallDurationSeconds = new Histogram({
+  name: "invaders_bot_api_call_duration_seconds",
+  help: "Duration of Space Invaders API fetches including retries, by outcome",
+  labelNames: ["result"],
+  buckets: [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+  registers: [register],
+});
+
+export const ipfsReadinessSeconds = new Histogram({
+  name: "invaders_bot_ipfs_readiness_seconds",
+  help: "Time until flashes published by a sync were pinned to IPFS (or the deadline passed)",
+  labelNames: ["outcome"],
+  buckets: [5, 15, 30, 60, 90, 120, 180, 300, 600],
+  registers: [register],
+});
+
+export const proxyRequestDurationSeconds = new Histogram({
+  name: "invaders_bot_proxy_request_duration_seconds",
+  help: "Latency of Space Invaders API requests per proxy in seconds",
+  labelNames: ["proxy"],
+  buckets: [0.25, 0.5, 1, 2, 5, 10, 15, 30],
+  registers: [register],
+});
+
 // ============================================
 // METRICS SERVER
 // ============================================
@@ -130,7 +316,7 @@ setInterval(() => {
   memoryBytes.set({ type: "external" }, mem.external);
 }, 5000);
 
-export function startMetricsServer(port: number = 9090): void {
+export function startMetricsServer(port: number = 9090): http.Server {
   const server = http.createServer(async (req, res) => {
     const url = req.url?.split("?")[0] || "";
     if (url === "/metrics" || url === "/") {
@@ -141,6 +327,26 @@ export function startMetricsServer(port: number = 9090): void {
         res.statusCode = 500;
         res.end("Error collecting metrics");
       }
+    } else if (url === "/proxies") {
+      const toIso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+      const proxies = proxyPool.getSnapshot().map((proxy) => ({
+        proxy: proxy.key,
+        protocol: proxy.protocol,
+        profile: proxy.profile,
+        source: proxy.source,
+        weight: proxy.weight,
+        score: Number(proxy.score.toFixed(3)),
+        skipped: proxy.skipped,
+        successCount: proxy.successCount,
+        failureCount: proxy.failureCount,
+        consecutiveFailures: proxy.consecutiveFailures,
+        lastSuccess: toIso(proxy.lastSuccessAt),
+        lastFailure: toIso(proxy.lastFailureAt),
+        lastError: proxy.lastError,
+        cooldownUntil: toIso(proxy.cooldownUntil),
+      }));
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ total: proxies.length, proxies }));
     } else if (url === "/health") {
       res.setHeader("Content-Type", "application/json");
       res.end(JSON.stringify({ status: "ok" }));
@@ -153,4 +359,6 @@ export function startMetricsServer(port: number = 9090): void {
   server.listen(port, () => {
     console.log(`[Metrics] Prometheus metrics available at http://localhost:${port}/metrics`);
   });
+
+  return server;
 }
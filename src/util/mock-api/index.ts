@@ -0,0 +1,273 @@
+import http from "http";
+import { Flash } from "../database/invader-flashes/types";
+import { RandomSource, createSeededRandom, mathRandom, pick } from "../flash-invaders/random";
+
+export interface MockFailureRates {
+  // Probabilities between 0 and 1, rolled independently per request in this order
+  proxyAuth: number;
+  rateLimit: number;
+  serverError: number;
+  timeout: number;
+}
+
+export interface MockApiOptions {
+  port: number;
+  initialFlashCount: number;
+  withParisBatch: number;
+  withoutParisBatch: number;
+  growthPerMinute: number;
+  failures: MockFailureRates;
+  retryAfterSeconds: number;
+  timeoutMs: number;
+  seed?: string;
+}
+
+export interface MockApiStats {
+  requests: number;
+  responses: Record<string, number>;
+  flashCount: number;
+}
+
+const CITIES = ["Paris", "London", "Tokyo", "New York", "Barcelona", "Rome", "Berlin", "Marseille", "Hong Kong", "Los Angeles"];
+const PLAYERS = ["alice", "bob", "carol", "dave", "erin", "frank", "grace", "heidi", "ivan", "judy"];
+
+// Flash ids start here so they look like production ids
+const FIRST_FLASH_ID = 90_000_000;
+
+export const DEFAULT_MOCK_API_OPTIONS: MockApiOptions = {
+  port: 4010,
+  initialFlashCount: 500,
+  withParisBatch: 100,
+  withoutParisBatch: 100,
+  growthPerMinute: 5,
+  failures: { proxyAuth: 0, rateLimit: 0, serverError: 0, timeout: 0 },
+  retryAfterSeconds: 60,
+  timeoutMs: 20000,
+};
+
+/**
+ * Offline stand-in for api.space-invaders.com serving /flashinvaders/flashes/.
+ * The feed grows over time and can inject 407/429/500/timeout failures.
+ *
+ * Control endpoints:
+ *   GET  /__mock/state   current options and request stats
+ *   POST /__mock/config  merge a partial MockApiOptions JSON body (e.g. {"failures":{"rateLimit":1}})
+ *   POST /__mock/flashes add {"count": n} flashes immediately
+ */
+export class MockSpaceInvadersServer {
+  private options: MockApiOptions;
+  private server: http.Server | null = null;
+  private random: RandomSource;
+  private startedAt: number = Date.now();
+  private extraFlashes: number = 0;
+  private stats: MockApiStats = { requests: 0, responses: {}, flashCount: 0 };
+
+  constructor(options: Partial<MockApiOptions> = {}) {
+    this.options = {
+      ...DEFAULT_MOCK_API_OPTIONS,
+      ...options,
+      failures: { ...DEFAULT_MOCK_API_OPTIONS.failures, ...options.failures },
+    };
+    this.random = this.options.seed ? createSeededRandom(this.options.seed) : mathRandom;
+  }
+
+  /**
+   * Rejects if the server can't listen, e.g. when the port is already in use
+   */
+  public async start(): Promise<number> {
+    this.startedAt = Date.now();
+    const server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      server.once("error", onError);
+      server.listen(this.options.port, () => {
+        server.off("error", onError);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = this.server.address();
+    const port = typeof address === "object" && address ? address.port : this.options.port;
+    console.log(`[MockSpaceInvadersServer] Listening on http://localhost:${port}/flashinvaders/flashes/`);
+    return port;
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  public getStats(): MockApiStats {
+    return { ...this.stats, responses: { ...this.stats.responses }, flashCount: this.currentFlashCount() };
+  }
+
+  public addFlashes(count: number): void {
+    this.extraFlashes += count;
+  }
+
+  public configure(options: Partial<MockApiOptions>): void {
+    this.options = {
+      ...this.options,
+      ...options,
+      failures: { ...this.options.failures, ...options.failures },
+    };
+  }
+
+  private currentFlashCount(): number {
+    const minutes = (Date.now() - this.startedAt) / 60000;
+    return this.options.initialFlashCount + Math.floor(minutes * this.options.growthPerMinute) + this.extraFlashes;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = req.url?.split("?")[0] || "";
+
+    if (url.startsWith("/__mock/")) {
+      this.handleControl(url, req, res);
+      return;
+    }
+
+    if (url !== "/flashinvaders/flashes/") {
+      this.respond(res, 404, { error: "Not found" });
+      return;
+    }
+
+    this.stats.requests++;
+    const { failures } = this.options;
+
+    if (this.random.next() < failures.proxyAuth) {
+      this.respond(res, 407, { error: "Proxy Authentication Required" });
+    } else if (this.random.next() < failures.rateLimit) {
+      res.setHeader("Retry-After", String(this.options.retryAfterSeconds));
+      this.respond(res, 429, { error: "Too Many Requests" });
+    } else if (this.random.next() < failures.serverError) {
+      this.respond(res, 500, { error: "Internal Server Error" });
+    } else if (this.random.next() < failures.timeout) {
+      this.record("timeout");
+      setTimeout(() => res.destroy(), this.options.timeoutMs);
+    } else {
+      this.respond(res, 200, this.buildResponse());
+    }
+  }
+
+  private handleControl(url: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method === "GET" && url === "/__mock/state") {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ options: this.options, stats: this.getStats() }));
+      return;
+    }
+
+    if (req.method !== "POST" || (url !== "/__mock/config" && url !== "/__mock/flashes")) {
+      res.statusCode = 404;
+      res.end("Not found");
+      return;
+    }
+
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const parsed = body ? JSON.parse(body) : {};
+        if (url === "/__mock/config") {
+          this.configure(parsed);
+        } else {
+          this.addFlashes(Number(parsed.count) || 1);
+        }
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ options: this.options, stats: this.getStats() }));
+      } catch (error) {
+        res.statusCode = 400;
+        res.end(`Invalid JSON body: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  private buildResponse() {
+    const flashCount = this.currentFlashCount();
+    const latestId = FIRST_FLASH_ID + flashCount - 1;
+    const nowSec = Math.floor(Date.now() / 1000);
+    const intervalSec = Math.max(1, Math.round(60 / Math.max(this.options.growthPerMinute, 1)));
+
+    const withParis: Flash[] = [];
+    const withoutParis: Flash[] = [];
+
+    for (let id = latestId; id >= FIRST_FLASH_ID; id--) {
+      const flash = this.buildFlash(id, nowSec - (latestId - id) * intervalSec, flashCount);
+
+      if (withParis.length < this.options.withParisBatch) {
+        withParis.push(flash);
+      }
+      if (flash.city !== "Paris" && withoutParis.length < this.options.withoutParisBatch) {
+        withoutParis.push(flash);
+      }
+      if (withParis.length >= this.options.withParisBatch && withoutParis.length >= this.options.withoutParisBatch) {
+        break;
+      }
+    }
+
+    return {
+      flash_count: String(flashCount),
+      player_count: String(PLAYERS.length),
+      with_paris: withParis,
+      without_paris: withoutParis,
+    };
+  }
+
+  private buildFlash(flashId: number, timestamp: number, flashCount: number): Flash {
+    // Derive fields from the id so the same flash always looks the same across responses
+    const seeded = createSeededRandom(flashId);
+    const city = pick(seeded, CITIES);
+    const player = pick(seeded, PLAYERS);
+
+    return {
+      flash_id: flashId,
+      city,
+      player,
+      img: `/media/flashs/${flashId}.jpg`,
+      ipfs_cid: "",
+      text: `${player} flashed an invader in ${city}`,
+      timestamp,
+      flash_count: String(flashCount),
+    };
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: unknown): void {
+    this.record(String(status));
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  }
+
+  private record(outcome: string): void {
+    this.stats.responses[outcome] = (this.stats.responses[outcome] || 0) + 1;
+  }
+}
+
+/**
+ * Mock server options from MOCK_* environment variables
+ */
+export function mockApiOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MockApiOptions {
+  const num = (key: string, fallback: number) => (env[key] ? parseFloat(env[key]!) : fallback);
+
+  return {
+    port: num("MOCK_API_PORT", DEFAULT_MOCK_API_OPTIONS.port),
+    initialFlashCount: num("MOCK_FLASH_COUNT", DEFAULT_MOCK_API_OPTIONS.initialFlashCount),
+    withParisBatch: num("MOCK_WITH_PARIS_BATCH", DEFAULT_MOCK_API_OPTIONS.withParisBatch),
+    withoutParisBatch: num("MOCK_WITHOUT_PARIS_BATCH", DEFAULT_MOCK_API_OPTIONS.withoutParisBatch),
+    growthPerMinute: num("MOCK_GROWTH_PER_MINUTE", DEFAULT_MOCK_API_OPTIONS.growthPerMinute),
+    failures: {
+      proxyAuth: num("MOCK_FAIL_407", 0),
+      rateLimit: num("MOCK_FAIL_429", 0),
+      serverError: num("MOCK_FAIL_500", 0),
+      timeout: num("MOCK_FAIL_TIMEOUT", 0),
+    },
+    retryAfterSeconds: num("MOCK_RETRY_AFTER_SECONDS", DEFAULT_MOCK_API_OPTIONS.retryAfterSeconds),
+    timeoutMs: num("MOCK_TIMEOUT_MS", DEFAULT_MOCK_API_OPTIONS.timeoutMs),
+    seed: env.MOCK_SEED || undefined,
+  };
+}
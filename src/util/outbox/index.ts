@@ -0,0 +1,193 @@
+import { OutboxDb } from "../database/outbox";
+import { OutboxDelivery, OutboxEvent } from "../database/outbox/types";
+import { Flash } from "../database/invader-flashes/types";
+import { RabbitImagePush, RoutedFlashMessage } from "../rabbitmq";
+import { FlashImageMessage, createFlashImageMessage, isMessageEnvelope } from "../rabbitmq/envelope";
+import { lifecycle } from "../lifecycle";
+import { flashProcessing } from "../flash-processing";
+import { flashesQuarantinedTotal, outboxEventsTotal, outboxPendingEvents, outboxOldestPendingSeconds } from "../metrics";
+
+export interface OutboxRelayOptions {
+  // Events claimed at once; a batch is sent at once and its acks awaited together
+  batchSize: number;
+  // How long claimed events are reserved for this relay; must outlast a publish (connect retries + confirm timeout)
+  leaseMs: number;
+  pollIntervalMs: number;
+  // Backoff for a failed event: retryBaseMs * 2^attempts, capped at retryMaxMs
+  retryBaseMs: number;
+  retryMaxMs: number;
+  // Failed publishes after which an event is quarantined (0 retries forever)
+  maxAttempts: number;
+}
+
+export interface OutboxDrainResult {
+  sent: number;
+  failed: number;
+  // Failed events moved to quarantined_flashes (also counted in failed)
+  quarantined: number;
+  // flash_ids of the flash_image events published by this drain
+  sentFlashIds: number[];
+}
+
+interface FlashPublisher {
+  publishMessages(messages: RoutedFlashMessage[]): Promise<PromiseSettledResult<unknown>[]>;
+  isConnected(): boolean;
+}
+
+/**
+ * Publishes outbox events to RabbitMQ. An event is marked sent only after the
+ * broker confirmed it, so a crash in between publishes it again (at-least-once).
+ * Rows are leased (see OutboxDb.deliverBatch), so several instances can relay.
+ * An event that keeps failing while the broker is up is quarantined after maxAttempts.
+ */
+export class OutboxRelay {
+  private options: OutboxRelayOptions;
+  private db: OutboxDb;
+  private publisher: FlashPublisher | null;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<OutboxDrainResult> | null = null;
+
+  constructor(options: OutboxRelayOptions = outboxRelayOptionsFromEnv(), db?: OutboxDb, publisher?: FlashPublisher) {
+    this.options = options;
+    this.db = db ?? new OutboxDb();
+    this.publisher = publisher ?? null;
+  }
+
+  /**
+   * Publish due events batch by batch until none are left, a batch fails or shutdown starts.
+   * Drains run one after another, so a drain requested after a commit always sees its events.
+   */
+  public drain(): Promise<OutboxDrainResult> {
+    const next = (this.draining ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.runDrain());
+    this.draining = next;
+    next
+      .finally(() => {
+        if (this.draining === next) this.draining = null;
+      })
+      .catch(() => undefined);
+    return next;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+
+    console.log(`[OutboxRelay] Polling the outbox every ${this.options.pollIntervalMs}ms`);
+    this.timer = setInterval(() => {
+      if (this.draining) return;
+      this.drain().catch((error) => console.error("[OutboxRelay] Drain failed:", error));
+    }, this.options.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling and wait for the drain in progress; unsent events stay in the outbox
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    while (this.draining) {
+      await this.draining.catch(() => undefined);
+    }
+  }
+
+  private async runDrain(): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { sent: 0, failed: 0, quarantined: 0, sentFlashIds: [] };
+
+    while (!lifecycle.isShuttingDown()) {
+      const delivery = await this.db.deliverBatch(this.options.batchSize, this.options.leaseMs, (events) => this.deliver(events, result));
+      if (delivery.claimed === 0) break;
+
+      result.sent += delivery.sent.length;
+      result.failed += delivery.failed.length;
+      outboxEventsTotal.inc({ result: "sent" }, delivery.sent.length);
+      outboxEventsTotal.inc({ result: "failed" }, delivery.failed.length);
+
+      const quarantined = delivery.failed.filter((failure) => failure.quarantine).length;
+      if (quarantined > 0) {
+        result.quarantined += quarantined;
+        outboxEventsTotal.inc({ result: "quarantined" }, quarantined);
+        flashesQuarantinedTotal.inc({ reason: "publish_failed" }, quarantined);
+      }
+
+      if (delivery.failed.length > 0) {
+        console.warn(`[OutboxRelay] ${delivery.failed.length} events failed to publish, retrying after backoff`);
+        break;
+      }
+    }
+
+    await flashProcessing.recordPublished(result.sentFlashIds);
+    await this.updateGauges();
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(
+        `[OutboxRelay] Published ${result.sent} events, ${result.failed} failed${result.quarantined > 0 ? ` (${result.quarantined} quarantined)` : ""}`,
+      );
+    }
+    return result;
+  }
+
+  private async deliver(events: OutboxEvent[], result: OutboxDrainResult): Promise<OutboxDelivery> {
+    const publisher = this.publisher ?? (this.publisher = new RabbitImagePush());
+    const delivery: OutboxDelivery = { sent: [], failed: [] };
+
+    const outcomes = await publisher.publishMessages(
+      events.map((event) => ({ message: toFlashImageMessage(event), priority: event.priority })),
+    );
+    // A broker outage fails every event; only failures while it is reachable lead to quarantine
+    const brokerReachable = publisher.isConnected() || outcomes.some((outcome) => outcome.status === "fulfilled");
+    outcomes.forEach((outcome, i) => {
+      const event = events[i];
+      if (outcome.status === "fulfilled") {
+        delivery.sent.push(event.id);
+        if (event.flash_id !== null) result.sentFlashIds.push(event.flash_id);
+        return;
+      }
+
+      const error = outcome.reason as Error;
+      const delay = Math.min(this.options.retryBaseMs * 2 ** event.attempts, this.options.retryMaxMs);
+      const quarantine = brokerReachable && this.options.maxAttempts > 0 && event.attempts + 1 >= this.options.maxAttempts;
+      console.error(`[OutboxRelay] Failed to publish outbox event ${event.id} (flash ${event.flash_id}): ${error.message}`);
+      if (quarantine) {
+        console.warn(`[OutboxRelay] Outbox event ${event.id} failed ${event.attempts + 1} times, quarantining flash ${event.flash_id}`);
+      }
+      delivery.failed.push({ id: event.id, error: error.message, nextAttemptAt: new Date(Date.now() + delay), quarantine });
+    });
+
+    return delivery;
+  }
+
+  private async updateGauges(): Promise<void> {
+    try {
+      const { pending, oldestCreatedAt } = await this.db.getPendingStats();
+      outboxPendingEvents.set(pending);
+      outboxOldestPendingSeconds.set(oldestCreatedAt ? Math.max(0, (Date.now() - new Date(oldestCreatedAt).getTime()) / 1000) : 0);
+    } catch (error) {
+      console.error("[OutboxRelay] Failed to read outbox stats:", error);
+    }
+  }
+}
+
+/**
+ * Events enqueued before payloads were stored as envelopes hold the bare flash
+ */
+function toFlashImageMessage(event: OutboxEvent): FlashImageMessage {
+  return isMessageEnvelope(event.payload)
+    ? (event.payload as FlashImageMessage)
+    : createFlashImageMessage(event.payload as Flash);
+}
+
+export function outboxRelayOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): OutboxRelayOptions {
+  return {
+    batchSize: parseInt(env.OUTBOX_BATCH_SIZE || "100"),
+    leaseMs: parseInt(env.OUTBOX_LEASE_MS || "300000"),
+    pollIntervalMs: parseInt(env.OUTBOX_POLL_INTERVAL_MS || "5000"),
+    retryBaseMs: parseInt(env.OUTBOX_RETRY_BASE_MS || "5000"),
+    retryMaxMs: parseInt(env.OUTBOX_RETRY_MAX_MS || "300000"),
+    maxAttempts: parseInt(env.OUTBOX_MAX_ATTEMPTS || "20"),
+  };
+}
+
+// Shared so store-flashes and the background poller don't drain side by side
+export const outboxRelay = new OutboxRelay();
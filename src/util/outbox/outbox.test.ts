@@ -0,0 +1,176 @@
+import { OutboxDb } from "../database/outbox";
+import { OutboxDelivery, OutboxEvent } from "../database/outbox/types";
+import { FLASH_IMAGE_MESSAGE_TYPE, createFlashImageMessage } from "../rabbitmq/envelope";
+import { RoutedFlashMessage } from "../rabbitmq";
+import { lifecycle } from "../lifecycle";
+import { flashProcessing } from "../flash-processing";
+import { OutboxRelay, OutboxRelayOptions } from ".";
+
+jest.mock("../database/outbox", () => ({ OutboxDb: jest.fn() }));
+jest.mock("../rabbitmq", () => ({ RabbitImagePush: jest.fn() }));
+jest.mock("../lifecycle", () => ({ lifecycle: { isShuttingDown: jest.fn(() => false) } }));
+jest.mock("../flash-processing", () => ({ flashProcessing: { recordPublished: jest.fn() } }));
+jest.mock("../metrics", () => ({
+  flashesQuarantinedTotal: { inc: jest.fn() },
+  outboxEventsTotal: { inc: jest.fn() },
+  outboxPendingEvents: { set: jest.fn() },
+  outboxOldestPendingSeconds: { set: jest.fn() },
+}));
+
+const OPTIONS: OutboxRelayOptions = { batchSize: 2, leaseMs: 60_000, pollIntervalMs: 1000, retryBaseMs: 1000, retryMaxMs: 4000, maxAttempts: 3 };
+
+const flash = (flashId: number) => ({
+  flash_id: flashId,
+  city: "Paris",
+  player: "invader",
+  img: `/img/${flashId}.jpg`,
+  ipfs_cid: "",
+  text: "",
+  timestamp: 1760000000,
+  flash_count: "1",
+});
+
+function event(id: number, attempts: number = 0, payload: unknown = createFlashImageMessage(flash(id))): OutboxEvent {
+  return {
+    id,
+    event_type: "flash_image",
+    flash_id: id,
+    payload,
+    priority: "low",
+    created_at: new Date(),
+    attempts,
+    next_attempt_at: new Date(),
+    last_error: null,
+    sent_at: null,
+    locked_until: null,
+  };
+}
+
+// Outbox whose deliverBatch hands out `events` batchSize at a time and records what was delivered
+function outbox(events: OutboxEvent[]) {
+  const pending = [...events];
+  const deliveries: OutboxDelivery[] = [];
+  const db = {
+    deliveries,
+    deliverBatch: jest.fn(async (limit: number, _leaseMs: number, deliver: (events: OutboxEvent[]) => Promise<OutboxDelivery>) => {
+      const claimed = pending.splice(0, limit);
+      if (claimed.length === 0) return { claimed: 0, sent: [], failed: [] };
+      const delivery = await deliver(claimed);
+      deliveries.push(delivery);
+      return { claimed: claimed.length, ...delivery };
+    }),
+    getPendingStats: jest.fn(async () => ({ pending: pending.length, oldestCreatedAt: null })),
+  };
+  return db;
+}
+
+// Publisher that fails the flash ids in `failing`
+function publisher(failing: number[] = [], connected: boolean = true) {
+  const published: RoutedFlashMessage[] = [];
+  return {
+    published,
+    publishMessages: jest.fn(async (messages: RoutedFlashMessage[]) => {
+      published.push(...messages);
+      return messages.map(({ message }) =>
+        failing.includes(message.payload.flash_id)
+          ? ({ status: "rejected", reason: new Error("nack") } as const)
+          : ({ status: "fulfilled", value: undefined } as const),
+      );
+    }),
+    isConnected: () => connected,
+  };
+}
+
+function relay(db: ReturnType<typeof outbox>, broker: ReturnType<typeof publisher>, options: Partial<OutboxRelayOptions> = {}) {
+  return new OutboxRelay({ ...OPTIONS, ...options }, db as unknown as OutboxDb, broker);
+}
+
+describe("OutboxRelay", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(lifecycle.isShuttingDown).mockReturnValue(false);
+    jest.mocked(flashProcessing.recordPublished).mockClear();
+  });
+
+  it("publishes every due event batch by batch with the relay's lease", async () => {
+    const db = outbox([event(1), event(2), event(3)]);
+    const broker = publisher();
+
+    const result = await relay(db, broker).drain();
+
+    expect(result).toEqual({ sent: 3, failed: 0, quarantined: 0, sentFlashIds: [1, 2, 3] });
+    expect(db.deliverBatch).toHaveBeenCalledTimes(3);
+    expect(db.deliverBatch).toHaveBeenCalledWith(2, 60_000, expect.any(Function));
+    expect(db.deliveries.map((d) => d.sent)).toEqual([[1, 2], [3]]);
+    expect(flashProcessing.recordPublished).toHaveBeenCalledWith([1, 2, 3]);
+  });
+
+  it("wraps events stored before envelopes in one", async () => {
+    const broker = publisher();
+
+    await relay(outbox([event(1, 0, flash(1))]), broker).drain();
+
+    expect(broker.published[0].message).toMatchObject({ type: FLASH_IMAGE_MESSAGE_TYPE, version: 1, payload: { flash_id: 1 } });
+  });
+
+  it("backs off failed events and stops draining", async () => {
+    const db = outbox([event(1, 2), event(2), event(3)]);
+    const before = Date.now();
+
+    const result = await relay(db, publisher([1]), { maxAttempts: 0 }).drain();
+
+    expect(result).toMatchObject({ sent: 1, failed: 1, quarantined: 0 });
+    expect(db.deliverBatch).toHaveBeenCalledTimes(1);
+    const [failure] = db.deliveries[0].failed;
+    expect(failure).toMatchObject({ id: 1, error: "nack", quarantine: false });
+    // min(1000 * 2^2, 4000)
+    expect(failure.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(4000);
+    expect(failure.nextAttemptAt.getTime() - before).toBeLessThan(5000);
+  });
+
+  it("quarantines an event out of attempts while the broker is up", async () => {
+    const db = outbox([event(1, 2), event(2, 1)]);
+
+    const result = await relay(db, publisher([1, 2])).drain();
+
+    expect(result).toMatchObject({ failed: 2, quarantined: 1 });
+    expect(db.deliveries[0].failed.map((f) => [f.id, f.quarantine])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+  });
+
+  it("never quarantines during a broker outage", async () => {
+    const db = outbox([event(1, 5)]);
+
+    const result = await relay(db, publisher([1], false)).drain();
+
+    expect(result).toMatchObject({ failed: 1, quarantined: 0 });
+  });
+
+  it("stops claiming once shutdown started", async () => {
+    const db = outbox([event(1), event(2), event(3)]);
+    jest.mocked(lifecycle.isShuttingDown).mockReturnValueOnce(false).mockReturnValue(true);
+
+    const result = await relay(db, publisher()).drain();
+
+    expect(result.sent).toBe(2);
+    expect(db.deliverBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs drains one after another", async () => {
+    const db = outbox([event(1), event(2), event(3), event(4)]);
+    const relayed = relay(db, publisher(), { batchSize: 4 });
+
+    const [first, second] = await Promise.all([relayed.drain(), relayed.drain()]);
+
+    expect(first.sent).toBe(4);
+    expect(second.sent).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { ProxyDefinition, ProxyPool, parseProxyList, proxyPoolConfigFromEnv } from ".";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function proxy(host: string, overrides: Partial<ProxyDefinition> = {}): ProxyDefinition {
+  return { key: `${host}:8080`, host, port: 8080, protocol: "http", profile: "static", weight: 1, source: "primary", ...overrides };
+}
+
+function pool(proxies: ProxyDefinition[]): ProxyPool {
+  return new ProxyPool({ proxies, failureThreshold: 2, cooldownMs: 1000, maxCooldownMs: 3000 });
+}
+
+describe("parseProxyList", () => {
+  it("reads protocol, port, credentials and per-proxy overrides", () => {
+    expect(parseProxyList("http://a:8080, https://us%40er:p%3Ass@b?profile=rotating-gateway&weight=2", "static", "fallback")).toEqual([
+      { key: "a:8080", host: "a", port: 8080, protocol: "http", auth: undefined, profile: "static", weight: 1, source: "fallback" },
+      {
+        key: "b:443",
+        host: "b",
+        port: 443,
+        protocol: "https",
+        auth: { username: "us@er", password: "p:ss" },
+        profile: "rotating-gateway",
+        weight: 2,
+        source: "fallback",
+      },
+    ]);
+  });
+
+  it("has no proxies for an empty list", () => {
+    expect(parseProxyList(" ", "static", "primary")).toEqual([]);
+  });
+
+  it.each([
+    ["socks5://a:1080", "Unsupported proxy protocol"],
+    ["http://a:8080?weight=0", "Proxy weight must be a positive number"],
+    ["http://a:8080?profile=sticky", "Proxy profile must be one of"],
+    ["not a url", "Invalid URL"],
+  ])("rejects %s", (list, message) => {
+    expect(() => parseProxyList(list, "static", "primary")).toThrow(message);
+  });
+});
+
+describe("proxyPoolConfigFromEnv", () => {
+  it("only uses the fallback list when the primary one is empty", () => {
+    expect(proxyPoolConfigFromEnv({ PROXY_LIST: "http://a:1", FALLBACK_PROXY_LIST: "http://b:1" }).proxies.map((p) => p.key)).toEqual(["a:1"]);
+    expect(proxyPoolConfigFromEnv({ FALLBACK_PROXY_LIST: "http://b:1" }).proxies).toEqual([
+      expect.objectContaining({ key: "b:1", source: "fallback" }),
+    ]);
+  });
+
+  it("defaults the thresholds", () => {
+    expect(proxyPoolConfigFromEnv({})).toEqual({ proxies: [], failureThreshold: 3, cooldownMs: 300000, maxCooldownMs: 1800000 });
+  });
+
+  it.each([
+    [{ PROXY_FAILURE_THRESHOLD: "three" }, "PROXY_FAILURE_THRESHOLD must be an integer >= 1"],
+    [{ PROXY_FAILURE_THRESHOLD: "0" }, "PROXY_FAILURE_THRESHOLD must be an integer >= 1"],
+    [{ PROXY_COOLDOWN_MS: "1.5" }, "PROXY_COOLDOWN_MS must be an integer >= 0"],
+    [{ PROXY_COOLDOWN_MS: "5000", PROXY_MAX_COOLDOWN_MS: "1000" }, "PROXY_MAX_COOLDOWN_MS must be an integer >= 5000"],
+  ])("rejects %p", (env, message) => {
+    expect(() => proxyPoolConfigFromEnv(env)).toThrow(message);
+  });
+});
+
+describe("ProxyPool", () => {
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("picks proxies in proportion to their weight", () => {
+    const proxies = pool([proxy("a"), proxy("b", { weight: 3 })]);
+
+    expect(proxies.select(() => 0.2)?.host).toBe("a");
+    expect(proxies.select(() => 0.3)?.host).toBe("b");
+    expect(proxies.select(() => 0.99)?.host).toBe("b");
+  });
+
+  it("has nothing to select without proxies", () => {
+    expect(pool([]).select()).toBeNull();
+  });
+
+  it("favours healthy proxies", () => {
+    const a = proxy("a");
+    const proxies = pool([a, proxy("b")]);
+
+    proxies.recordFailure(a, "timeout");
+
+    // a's score halved: weights 0.5 and 1
+    expect(proxies.select(() => 0.3)?.host).toBe("a");
+    expect(proxies.select(() => 0.34)?.host).toBe("b");
+  });
+
+  it("cools a static proxy down after the failure threshold, doubling up to the max", () => {
+    const a = proxy("a");
+    const proxies = pool([a, proxy("b")]);
+
+    proxies.recordFailure(a, "timeout");
+    expect(proxies.isSkipped(a)).toBe(false);
+
+    proxies.recordFailure(a, "timeout");
+    expect(proxies.getSnapshot()[0]).toMatchObject({ consecutiveFailures: 2, cooldownUntil: NOW + 1000, skipped: true });
+    expect(proxies.select(() => 0)?.host).toBe("b");
+
+    proxies.recordFailure(a, "timeout");
+    expect(proxies.getSnapshot()[0].cooldownUntil).toBe(NOW + 2000);
+    proxies.recordFailure(a, "timeout");
+    proxies.recordFailure(a, "timeout");
+    expect(proxies.getSnapshot()[0].cooldownUntil).toBe(NOW + 3000);
+
+    expect(proxies.isSkipped(a, NOW + 3000)).toBe(false);
+  });
+
+  it("brings a proxy back on success", () => {
+    const a = proxy("a");
+    const proxies = pool([a]);
+    proxies.recordFailure(a, "timeout");
+    proxies.recordFailure(a, "timeout");
+
+    proxies.recordSuccess(a);
+
+    expect(proxies.getSnapshot()[0]).toMatchObject({ consecutiveFailures: 0, cooldownUntil: null, skipped: false, successCount: 1 });
+  });
+
+  it("never takes a rotating gateway out of rotation", () => {
+    const gateway = proxy("gw", { profile: "rotating-gateway" });
+    const proxies = pool([gateway]);
+
+    for (let i = 0; i < 5; i++) proxies.recordFailure(gateway, "blocked");
+
+    expect(proxies.getSnapshot()[0]).toMatchObject({ failureCount: 5, cooldownUntil: null, skipped: false });
+    expect(proxies.select()).toBe(gateway);
+  });
+
+  it("uses the proxy that recovers soonest when every one is cooling down", () => {
+    const a = proxy("a");
+    const b = proxy("b");
+    const proxies = pool([a, b]);
+    for (let i = 0; i < 3; i++) proxies.recordFailure(a, "timeout");
+    for (let i = 0; i < 2; i++) proxies.recordFailure(b, "timeout");
+
+    expect(proxies.select()).toBe(b);
+  });
+
+  it("resets one proxy or the whole pool", () => {
+    const a = proxy("a");
+    const b = proxy("b");
+    const proxies = pool([a, b]);
+    proxies.recordFailure(a, "timeout");
+    proxies.recordFailure(b, "timeout");
+
+    expect(proxies.reset("a:8080")).toBe(true);
+    expect(proxies.getSnapshot().map((p) => p.failureCount)).toEqual([0, 1]);
+    expect(proxies.reset("c:8080")).toBe(false);
+
+    proxies.reset();
+    expect(proxies.getSnapshot().map((p) => p.failureCount)).toEqual([0, 0]);
+  });
+
+  it("leaves credentials out of the snapshot", () => {
+    const proxies = pool([proxy("a", { auth: { username: "user", password: "secret" } })]);
+
+    expect(JSON.stringify(proxies.getSnapshot())).not.toContain("secret");
+  });
+});
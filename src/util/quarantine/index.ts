@@ -0,0 +1,264 @@
+import { ConsumeMessage, XDeath } from "amqplib";
+import { QuarantineDb } from "../database/quarantine";
+import { NewQuarantineEntry, QuarantineEntry, QuarantineReason } from "../database/quarantine/types";
+import { FlashProcessingDb } from "../database/flash-processing";
+import { OutboxDb } from "../database/outbox";
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { Flash } from "../database/invader-flashes/types";
+import { JournalEntry, RetryStage } from "../flash-journal";
+import { RabbitConsumer, ConsumeOutcome } from "../rabbitmq/consumer";
+import { FLASH_IMAGE_MESSAGE_TYPE, FlashImagePayload, isMessageEnvelope } from "../rabbitmq/envelope";
+import { rabbitConnectionOptionsFromEnv } from "../rabbitmq/connection";
+import { DeadLetterConfig, deadLetterConfigFromEnv } from "../rabbitmq/routing";
+import { flashesQuarantinedTotal, quarantinedFlashes } from "../metrics";
+
+export interface QuarantineOptions {
+  // The dead-letter queue is consumed when deadLetter.exchange is set
+  deadLetter: DeadLetterConfig;
+  prefetch: number;
+  // Delay before retrying a dead letter that couldn't be stored
+  retryDelayMs: number;
+}
+
+export interface RequeueResult {
+  requeued: number[];
+  // Not quarantined, or stored nowhere to requeue from
+  notFound: number[];
+  // The stored flash failed validation again; still quarantined
+  invalid: number[];
+}
+
+const GAUGE_REFRESH_MS = 60_000;
+
+// unexpected failures happen before the write, the flash may not be stored either
+const JOURNAL_STAGE_REASONS: Record<RetryStage, QuarantineReason> = {
+  db_write: "db_write_failed",
+  publish: "publish_failed",
+  unexpected: "unexpected_error",
+};
+
+/**
+ * Where the retry loops send flashes they gave up on: journal retries after FLASH_RETRY_MAX_ATTEMPTS
+ * failed attempts, the outbox relay after OUTBOX_MAX_ATTEMPTS failed publishes, the image
+ * processor's permanent failures and messages dead-lettered by the image queues. Quarantined
+ * flashes aren't published again until requeued (see `yarn invaders quarantine`).
+ */
+export class FlashQuarantine {
+  private options: QuarantineOptions;
+  private db: QuarantineDb;
+  private consumer: RabbitConsumer | null = null;
+  private gaugesRefreshedAt = 0;
+
+  constructor(options: QuarantineOptions = quarantineOptionsFromEnv(), db?: QuarantineDb) {
+    this.options = options;
+    this.db = db ?? new QuarantineDb();
+  }
+
+  /**
+   * Throws when the database is unavailable; callers keep the flashes in their own retry loop then.
+   * With `discardUnsent` their unsent outbox events are deleted in the same transaction.
+   */
+  public async quarantine(entries: NewQuarantineEntry[], discardUnsent: boolean = false): Promise<void> {
+    if (entries.length === 0) return;
+
+    if (discardUnsent) {
+      const discarded = await new OutboxDb().quarantineUnsent(entries);
+      if (discarded > 0) {
+        console.warn(`[Quarantine] Deleted ${discarded} unsent outbox events of quarantined flashes`);
+      }
+    } else {
+      await this.db.add(entries);
+    }
+    for (const entry of entries) {
+      flashesQuarantinedTotal.inc({ reason: entry.reason });
+      console.warn(
+        `[Quarantine] Quarantined flash ${entry.flashId} (${entry.reason}) after ${entry.attempts} attempt(s): ${entry.error ?? "no error recorded"}`,
+      );
+    }
+    await this.refreshGauges();
+  }
+
+  /**
+   * Quarantine journal entries that ran out of attempts, with the reason of the stage they
+   * failed at. Flashes that failed at the publish stage are stored with outbox events the
+   * relay would keep publishing; those are deleted. Returns false (and logs) if they
+   * couldn't be stored, so they stay journaled.
+   */
+  public async quarantineJournaled(entries: JournalEntry[]): Promise<boolean> {
+    const toEntry = (entry: JournalEntry): NewQuarantineEntry => ({
+      flashId: Number(entry.flash.flash_id),
+      reason: JOURNAL_STAGE_REASONS[entry.stage],
+      attempts: entry.attempts,
+      error: entry.error,
+      flash: entry.flash,
+      details: { journal_entry_id: entry.id, stage: entry.stage, journaled_at: entry.appended_at },
+    });
+
+    try {
+      await this.quarantine(entries.filter((entry) => entry.stage !== "publish").map(toEntry));
+      await this.quarantine(entries.filter((entry) => entry.stage === "publish").map(toEntry), true);
+      return true;
+    } catch (error) {
+      console.error(`[Quarantine] Failed to quarantine ${entries.length} journaled flashes, retrying them instead:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * `flashIds` minus the quarantined flashes
+   */
+  public async withoutQuarantined(flashIds: number[]): Promise<number[]> {
+    const quarantined = new Set(await this.db.getQuarantinedIds(flashIds));
+    return flashIds.filter((flashId) => !quarantined.has(flashId));
+  }
+
+  /**
+   * Take flashes out of quarantine and enqueue them for publishing again: stored flashes
+   * are republished, flashes that never reached the database are written first. Their
+   * image processing failures are reset so they get a fresh set of attempts.
+   */
+  public async requeue(flashIds: number[]): Promise<RequeueResult> {
+    const result: RequeueResult = { requeued: [], notFound: [], invalid: [] };
+
+    const entries: QuarantineEntry[] = [];
+    for (const flashId of flashIds) {
+      const entry = await this.db.get(flashId);
+      if (entry) entries.push(entry);
+      else result.notFound.push(flashId);
+    }
+    if (entries.length === 0) return result;
+
+    const flashesDb = new PostgresFlashesDb();
+    const stored = await flashesDb.getByIds(entries.map((entry) => entry.flash_id));
+    const storedIds = new Set(stored.map((flash) => Number(flash.flash_id)));
+    const toWrite: Flash[] = [];
+    for (const entry of entries) {
+      if (storedIds.has(entry.flash_id)) continue;
+      if (entry.flash) toWrite.push(entry.flash);
+      else result.notFound.push(entry.flash_id);
+    }
+
+    // Before enqueueing, so the relay's publish count doesn't meet a permanently_failed flash
+    await new FlashProcessingDb().resetFailures([...storedIds, ...toWrite.map((flash) => Number(flash.flash_id))]);
+
+    const written = await flashesDb.writeMany(toWrite, {
+      republish: stored,
+      correlationId: `quarantine-requeue:${new Date().toISOString()}`,
+    });
+    const writtenIds = new Set(written.map((flash) => Number(flash.flash_id)));
+    for (const flash of toWrite) {
+      if (!writtenIds.has(Number(flash.flash_id))) result.invalid.push(Number(flash.flash_id));
+    }
+
+    result.requeued = [...storedIds, ...writtenIds];
+    await this.db.remove(result.requeued);
+    await this.refreshGauges(true);
+    return result;
+  }
+
+  /**
+   * Give up on quarantined flashes: the entries are deleted and the flashes are marked
+   * permanently_failed, so they aren't republished either. Returns the deleted entries.
+   */
+  public async discard(flashIds: number[]): Promise<QuarantineEntry[]> {
+    const removed = await this.db.remove(flashIds);
+    const processingDb = new FlashProcessingDb();
+    for (const entry of removed) {
+      await processingDb.markPermanentlyFailed([entry.flash_id], `discarded from quarantine (${entry.reason})`);
+    }
+    await this.refreshGauges(true);
+    return removed;
+  }
+
+  public startDeadLetterConsumer(): void {
+    const { deadLetter } = this.options;
+    if (!deadLetter.exchange) {
+      console.log("[Quarantine] RABBITMQ_DEAD_LETTER_EXCHANGE is empty, not consuming dead-lettered flashes");
+      return;
+    }
+    if (this.consumer) return;
+
+    const { reconnectBaseMs, reconnectMaxMs } = rabbitConnectionOptionsFromEnv();
+    this.consumer = new RabbitConsumer(
+      process.env.RABBITMQ_URL!,
+      {
+        queue: deadLetter.queue,
+        prefetch: this.options.prefetch,
+        reconnectBaseMs,
+        reconnectMaxMs,
+        retryDelayMs: this.options.retryDelayMs,
+      },
+      (body, message) => this.handleDeadLetter(body, message),
+    );
+    this.consumer.start();
+  }
+
+  public async stopDeadLetterConsumer(): Promise<void> {
+    await this.consumer?.stop();
+    this.consumer = null;
+  }
+
+  /**
+   * Quarantine a flash.image message the image queues dead-lettered (rejected by the
+   * image processor, expired or over the queue length). Throws when the database is
+   * unavailable, so the message is retried.
+   */
+  public async handleDeadLetter(body: unknown, message: ConsumeMessage): Promise<ConsumeOutcome> {
+    let payload: unknown = body;
+    if (isMessageEnvelope(body)) {
+      payload = body.type === FLASH_IMAGE_MESSAGE_TYPE ? body.payload : null;
+    }
+
+    const flashId = Number((payload as Partial<FlashImagePayload> | null)?.flash_id);
+    if (typeof payload !== "object" || payload === null || !Number.isInteger(flashId) || flashId <= 0) {
+      console.error(
+        `[Quarantine] Dropping dead letter ${message.properties.messageId ?? "without message id"}: not a flash.image message`,
+      );
+      return "reject";
+    }
+
+    // Most recent death first
+    const deaths: XDeath[] = message.properties.headers?.["x-death"] ?? [];
+    const death = deaths[0];
+    const image = payload as FlashImagePayload;
+    await this.quarantine([
+      {
+        flashId,
+        reason: "dead_lettered",
+        attempts: death?.count ?? 1,
+        error: death ? `${death.reason} on ${death.queue}` : "dead-lettered",
+        flash: { ...image, flash_id: flashId, ipfs_cid: image.ipfs_cid ?? "" },
+        details: {
+          message_id: message.properties.messageId ?? null,
+          routing_key: message.fields.routingKey,
+          x_death: deaths,
+        },
+      },
+    ]);
+    return "ack";
+  }
+
+  private async refreshGauges(force = false): Promise<void> {
+    if (!force && Date.now() - this.gaugesRefreshedAt < GAUGE_REFRESH_MS) return;
+    this.gaugesRefreshedAt = Date.now();
+
+    try {
+      const counts = await this.db.countByReason();
+      for (const [reason, count] of Object.entries(counts)) {
+        quarantinedFlashes.set({ reason }, count);
+      }
+    } catch (error) {
+      console.error("[Quarantine] Failed to read quarantined_flashes counts:", error);
+    }
+  }
+}
+
+export function quarantineOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): QuarantineOptions {
+  return {
+    deadLetter: deadLetterConfigFromEnv(env),
+    prefetch: parseInt(env.RABBITMQ_DEAD_LETTER_PREFETCH || "20"),
+    retryDelayMs: parseInt(env.RABBITMQ_RESULT_RETRY_DELAY_MS || "5000"),
+  };
+}
+
+export const flashQuarantine = new FlashQuarantine();
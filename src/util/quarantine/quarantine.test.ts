@@ -0,0 +1,137 @@
+import { FlashProcessingDb } from "../database/flash-processing";
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { Flash } from "../database/invader-flashes/types";
+import { QuarantineDb } from "../database/quarantine";
+import { QuarantineEntry } from "../database/quarantine/types";
+import { DeadLetterConfig } from "../rabbitmq/routing";
+import { quarantinedFlashes } from "../metrics";
+import { FlashQuarantine } from "./index";
+
+jest.mock("../database/quarantine", () => ({ QuarantineDb: jest.fn() }));
+jest.mock("../database/flash-processing", () => ({ FlashProcessingDb: jest.fn() }));
+jest.mock("../database/outbox", () => ({ OutboxDb: jest.fn() }));
+jest.mock("../database/invader-flashes", () => ({ PostgresFlashesDb: jest.fn() }));
+jest.mock("../metrics", () => ({
+  flashesQuarantinedTotal: { inc: jest.fn() },
+  quarantinedFlashes: { set: jest.fn() },
+}));
+
+function flash(flashId: number | string): Flash {
+  return {
+    flash_id: flashId as number,
+    city: "Paris",
+    player: "invader",
+    img: `/img/${flashId}.jpg`,
+    ipfs_cid: "",
+    text: "",
+    timestamp: 1760000000,
+    flash_count: "1",
+  };
+}
+
+function entry(flashId: number, withFlash: boolean = true): QuarantineEntry {
+  return {
+    flash_id: flashId,
+    reason: "publish_failed",
+    attempts: 5,
+    last_error: "channel closed",
+    flash: withFlash ? flash(flashId) : null,
+    details: {},
+    quarantined_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+const db = {
+  get: jest.fn(),
+  remove: jest.fn(),
+  countByReason: jest.fn(),
+};
+const flashesDb = { getByIds: jest.fn(), writeMany: jest.fn() };
+const processingDb = { resetFailures: jest.fn(), markPermanentlyFailed: jest.fn() };
+
+function createQuarantine(): FlashQuarantine {
+  return new FlashQuarantine(
+    { deadLetter: {} as DeadLetterConfig, prefetch: 1, retryDelayMs: 0 },
+    db as unknown as QuarantineDb,
+  );
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (PostgresFlashesDb as jest.Mock).mockImplementation(() => flashesDb);
+  (FlashProcessingDb as jest.Mock).mockImplementation(() => processingDb);
+  db.remove.mockImplementation(async (flashIds: number[]) => flashIds.map((flashId) => entry(flashId)));
+  db.countByReason.mockResolvedValue({ publish_failed: 0 });
+});
+
+describe("FlashQuarantine.requeue", () => {
+  it("republishes stored flashes, writes the others and reports the rest", async () => {
+    // 1 is stored, 2 and 3 never reached the database (3 fails validation again),
+    // 4 has no flash to write and 5 isn't quarantined
+    const quarantined: Record<number, QuarantineEntry> = {
+      1: entry(1),
+      2: entry(2),
+      3: entry(3),
+      4: entry(4, false),
+    };
+    db.get.mockImplementation(async (flashId: number) => quarantined[flashId] ?? null);
+    const stored = flash("1");
+    flashesDb.getByIds.mockResolvedValue([stored]);
+    flashesDb.writeMany.mockImplementation(async (flashes: Flash[]) => flashes.filter((f) => f.flash_id !== 3));
+
+    const result = await createQuarantine().requeue([1, 2, 3, 4, 5]);
+
+    expect(result).toEqual({ requeued: [1, 2], notFound: [5, 4], invalid: [3] });
+    expect(flashesDb.getByIds).toHaveBeenCalledWith([1, 2, 3, 4]);
+    expect(processingDb.resetFailures).toHaveBeenCalledWith([1, 2, 3]);
+    expect(flashesDb.writeMany).toHaveBeenCalledWith([quarantined[2].flash, quarantined[3].flash], {
+      republish: [stored],
+      correlationId: expect.stringMatching(/^quarantine-requeue:/),
+    });
+    expect(db.remove).toHaveBeenCalledWith([1, 2]);
+    expect(quarantinedFlashes.set).toHaveBeenCalledWith({ reason: "publish_failed" }, 0);
+  });
+
+  it("resets failures before enqueueing", async () => {
+    db.get.mockResolvedValue(entry(1));
+    flashesDb.getByIds.mockResolvedValue([flash(1)]);
+    flashesDb.writeMany.mockResolvedValue([]);
+
+    await createQuarantine().requeue([1]);
+
+    expect(processingDb.resetFailures.mock.invocationCallOrder[0]).toBeLessThan(
+      flashesDb.writeMany.mock.invocationCallOrder[0],
+    );
+  });
+
+  it("touches nothing when none of the flashes are quarantined", async () => {
+    db.get.mockResolvedValue(null);
+
+    const result = await createQuarantine().requeue([7, 8]);
+
+    expect(result).toEqual({ requeued: [], notFound: [7, 8], invalid: [] });
+    expect(PostgresFlashesDb).not.toHaveBeenCalled();
+    expect(db.remove).not.toHaveBeenCalled();
+  });
+});
+
+describe("FlashQuarantine.discard", () => {
+  it("deletes the entries and marks their flashes permanently failed", async () => {
+    const removed = await createQuarantine().discard([1, 2]);
+
+    expect(removed.map((e) => e.flash_id)).toEqual([1, 2]);
+    expect(db.remove).toHaveBeenCalledWith([1, 2]);
+    expect(processingDb.markPermanentlyFailed).toHaveBeenCalledTimes(2);
+    expect(processingDb.markPermanentlyFailed).toHaveBeenCalledWith([1], "discarded from quarantine (publish_failed)");
+    expect(processingDb.markPermanentlyFailed).toHaveBeenCalledWith([2], "discarded from quarantine (publish_failed)");
+    expect(quarantinedFlashes.set).toHaveBeenCalledWith({ reason: "publish_failed" }, 0);
+  });
+
+  it("only marks flashes that were quarantined", async () => {
+    db.remove.mockResolvedValue([]);
+
+    await expect(createQuarantine().discard([9])).resolves.toEqual([]);
+    expect(processingDb.markPermanentlyFailed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import { ChannelModel, ConfirmChannel, Options, connect } from "amqplib";
+import {
+    messagesFailedTotal,
+    rabbitmqConnected,
+    rabbitmqReconnectsTotal,
+} from "../metrics";
+
+// Exchanges, queues and bindings a publish relies on, declared once per channel
+export interface Topology {
+    key: string;
+    assert(channel: ConfirmChannel): Promise<unknown>;
+}
+
+export function queueTopology(queue: string): Topology {
+    return {
+        key: `queue:${queue}`,
+        assert: (channel) => channel.assertQueue(queue, { durable: true }),
+    };
+}
+
+export interface RabbitConnectionOptions {
+    // Connection attempts per publish before giving up
+    connectAttempts: number;
+    // Backoff between attempts: reconnectBaseMs * 2^attempt, capped at reconnectMaxMs
+    reconnectBaseMs: number;
+    reconnectMaxMs: number;
+    // How long a publish waits for the broker's ack
+    confirmTimeoutMs: number;
+}
+
+/**
+ * One long-lived connection with a confirm channel. Publishes resolve once the
+ * broker acked the message and reject on a nack, a closed channel or a timeout.
+ * After the connection drops, the next publish reconnects (with backoff).
+ */
+export class RabbitConnection {
+    private url: string;
+    private options: RabbitConnectionOptions;
+    private connection: ChannelModel | null = null;
+    private channel: ConfirmChannel | null = null;
+    private connecting: Promise<ConfirmChannel> | null = null;
+    // Shared by every publish waiting for the channel's write buffer to empty
+    private drained: Promise<void> | null = null;
+    // Topology assertions on the current channel, shared so concurrent publishes keep their order
+    private assertedTopologies = new Map<string, Promise<unknown>>();
+    private hasConnected = false;
+    private closing = false;
+
+    constructor(
+        url: string,
+        options: RabbitConnectionOptions = rabbitConnectionOptionsFromEnv(),
+    ) {
+        this.url = url;
+        this.options = options;
+    }
+
+    /**
+     * Publish to `exchange` ("" is the default exchange, where the routing key is the queue name)
+     */
+    public async publish(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options: Options.Publish = {},
+        topology: Topology = queueTopology(routingKey),
+    ): Promise<void> {
+        const channel = await this.getChannel();
+
+        let asserted = this.assertedTopologies.get(topology.key);
+        if (!asserted) {
+            asserted = topology.assert(channel);
+            this.assertedTopologies.set(topology.key, asserted);
+        }
+        try {
+            await asserted;
+        } catch (error) {
+            this.assertedTopologies.delete(topology.key);
+            throw error;
+        }
+
+        const target = exchange ? `exchange ${exchange} (${routingKey})` : `queue ${routingKey}`;
+        let writable = true;
+        const confirmed = new Promise<void>((resolve, reject) => {
+            writable = channel.publish(exchange, routingKey, content, options, (error) => {
+                if (error) {
+                    reject(new Error(`RabbitMQ did not confirm message for ${target}: ${error.message}`));
+                } else {
+                    resolve();
+                }
+            });
+        });
+
+        // Handled below; keeps a nack that arrives while waiting for drain from going unhandled
+        confirmed.catch(() => undefined);
+
+        // The channel's write buffer is full: wait before letting the caller send more
+        if (!writable) {
+            await this.waitForDrain(channel);
+        }
+
+        try {
+            await this.withTimeout(confirmed, target);
+        } catch (error) {
+            messagesFailedTotal.inc();
+            throw error;
+        }
+    }
+
+    public isConnected(): boolean {
+        return this.channel !== null;
+    }
+
+    public async close(): Promise<void> {
+        this.closing = true;
+        await this.connecting?.catch(() => undefined);
+
+        const connection = this.connection;
+        this.reset();
+        if (connection) {
+            // Closing the connection closes the channel and fails its unconfirmed publishes
+            await connection.close();
+        }
+    }
+
+    private async getChannel(): Promise<ConfirmChannel> {
+        if (this.channel) return this.channel;
+        if (this.closing) {
+            throw new Error("RabbitMQ connection is closed");
+        }
+
+        if (!this.connecting) {
+            this.connecting = this.connectWithRetry().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private async connectWithRetry(): Promise<ConfirmChannel> {
+        const { connectAttempts, reconnectBaseMs, reconnectMaxMs } = this.options;
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt < connectAttempts; attempt++) {
+            if (attempt > 0) {
+                const delay = Math.min(reconnectBaseMs * 2 ** (attempt - 1), reconnectMaxMs);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+            if (this.closing) break;
+
+            try {
+                return await this.open();
+            } catch (error) {
+                lastError = error;
+                console.error(
+                    `[RabbitConnection] Connection attempt ${attempt + 1}/${connectAttempts} failed: ${(error as Error).message}`,
+                );
+            }
+        }
+
+        throw new Error(
+            `Could not connect to RabbitMQ after ${connectAttempts} attempts: ${(lastError as Error | undefined)?.message ?? "connection closed"}`,
+        );
+    }
+
+    private async open(): Promise<ConfirmChannel> {
+        const connection = await connect(this.url);
+        let channel: ConfirmChannel;
+        try {
+            channel = await connection.createConfirmChannel();
+        } catch (error) {
+            await connection.close().catch(() => undefined);
+            throw error;
+        }
+
+        // Both also emit "close", which is where the state is reset
+        connection.on("error", (error: Error) => {
+            console.error(`[RabbitConnection] Connection error: ${error.message}`);
+        });
+        channel.on("error", (error: Error) => {
+            console.error(`[RabbitConnection] Channel error: ${error.message}`);
+        });
+        connection.on("close", () => this.handleClose(connection));
+        // A channel closed by the broker (e.g. a failed assert) takes the connection with it,
+        // so the next publish starts from a fresh connection
+        channel.on("close", () => this.handleClose(connection));
+
+        if (this.hasConnected) {
+            rabbitmqReconnectsTotal.inc();
+            console.log("[RabbitConnection] Reconnected to RabbitMQ");
+        }
+        this.hasConnected = true;
+        this.connection = connection;
+        this.channel = channel;
+        rabbitmqConnected.set(1);
+        return channel;
+    }
+
+    private handleClose(connection: ChannelModel): void {
+        if (this.connection !== connection) return;
+
+        this.reset();
+        if (!this.closing) {
+            console.warn("[RabbitConnection] Connection closed unexpectedly, reconnecting on the next publish");
+            connection.close().catch(() => undefined);
+        }
+    }
+
+    private reset(): void {
+        this.connection = null;
+        this.channel = null;
+        this.assertedTopologies.clear();
+        rabbitmqConnected.set(0);
+    }
+
+    private waitForDrain(channel: ConfirmChannel): Promise<void> {
+        if (!this.drained) {
+            this.drained = new Promise((resolve) => {
+                const done = () => {
+                    channel.off("drain", done);
+                    channel.off("close", done);
+                    this.drained = null;
+                    resolve();
+                };
+                channel.once("drain", done);
+                channel.once("close", done);
+            });
+        }
+        return this.drained;
+    }
+
+    private async withTimeout(confirmed: Promise<void>, target: string): Promise<void> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Timed out after ${this.options.confirmTimeoutMs}ms waiting for RabbitMQ to confirm message for ${target}`)),
+                this.options.confirmTimeoutMs,
+            );
+        });
+
+        try {
+            await Promise.race([confirmed, timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+export function rabbitConnectionOptionsFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+): RabbitConnectionOptions {
+    return {
+        connectAttempts: parseInt(env.RABBITMQ_CONNECT_ATTEMPTS || "5"),
+        reconnectBaseMs: parseInt(env.RABBITMQ_RECONNECT_BASE_MS || "1000"),
+        reconnectMaxMs: parseInt(env.RABBITMQ_RECONNECT_MAX_MS || "30000"),
+        confirmTimeoutMs: parseInt(env.RABBITMQ_CONFIRM_TIMEOUT_MS || "30000"),
+    };
+}
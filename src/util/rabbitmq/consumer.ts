@@ -0,0 +1,196 @@
+import { Channel, ChannelModel, ConsumeMessage, connect } from "amqplib";
+import { rabbitmqConsumerConnected } from "../metrics";
+
+// ack: done; reject: drop the message, it can never be handled
+export type ConsumeOutcome = "ack" | "reject";
+
+// Throwing leaves the message on the queue to be retried after retryDelayMs
+export type MessageHandler = (body: unknown, message: ConsumeMessage) => Promise<ConsumeOutcome>;
+
+export interface RabbitConsumerOptions {
+    queue: string;
+    // Unacked messages handled at once
+    prefetch: number;
+    // Backoff between reconnects: reconnectBaseMs * 2^attempt, capped at reconnectMaxMs
+    reconnectBaseMs: number;
+    reconnectMaxMs: number;
+    // Delay before a message whose handler threw goes back on the queue
+    retryDelayMs: number;
+}
+
+/**
+ * Consumes one queue on its own connection (publishes keep theirs), reconnecting
+ * with backoff until stopped. Messages are acked only after the handler finished.
+ */
+export class RabbitConsumer {
+    private url: string;
+    private options: RabbitConsumerOptions;
+    private handler: MessageHandler;
+    private connection: ChannelModel | null = null;
+    private channel: Channel | null = null;
+    private consumerTag: string | null = null;
+    private inFlight = new Set<Promise<void>>();
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+    private running = false;
+
+    constructor(url: string, options: RabbitConsumerOptions, handler: MessageHandler) {
+        this.url = url;
+        this.options = options;
+        this.handler = handler;
+    }
+
+    public start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.connectOrRetry();
+    }
+
+    /**
+     * Stop consuming, wait for messages being handled, then close the connection
+     */
+    public async stop(): Promise<void> {
+        this.running = false;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        const { channel, connection, consumerTag } = this;
+        if (channel && consumerTag) {
+            await channel.cancel(consumerTag).catch(() => undefined);
+        }
+        await Promise.allSettled([...this.inFlight]);
+
+        this.reset();
+        if (connection) {
+            await connection.close().catch(() => undefined);
+        }
+    }
+
+    private connectOrRetry(): void {
+        this.open()
+            .then(() => {
+                this.reconnectAttempt = 0;
+            })
+            .catch((error) => {
+                console.error(
+                    `[RabbitConsumer] Could not consume ${this.options.queue}: ${(error as Error).message}`,
+                );
+                this.scheduleReconnect();
+            });
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.running || this.reconnectTimer) return;
+
+        const delay = Math.min(
+            this.options.reconnectBaseMs * 2 ** this.reconnectAttempt,
+            this.options.reconnectMaxMs,
+        );
+        this.reconnectAttempt++;
+        console.log(`[RabbitConsumer] Reconnecting to ${this.options.queue} in ${delay}ms`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.running) this.connectOrRetry();
+        }, delay);
+    }
+
+    private async open(): Promise<void> {
+        const connection = await connect(this.url);
+        try {
+            const channel = await connection.createChannel();
+            await channel.assertQueue(this.options.queue, { durable: true });
+            await channel.prefetch(this.options.prefetch);
+
+            connection.on("error", (error: Error) => {
+                console.error(`[RabbitConsumer] Connection error: ${error.message}`);
+            });
+            channel.on("error", (error: Error) => {
+                console.error(`[RabbitConsumer] Channel error: ${error.message}`);
+            });
+            connection.on("close", () => this.handleClose(connection));
+            channel.on("close", () => this.handleClose(connection));
+
+            this.connection = connection;
+            this.channel = channel;
+            const { consumerTag } = await channel.consume(this.options.queue, (message) => {
+                if (message) {
+                    this.track(this.handle(channel, message));
+                } else {
+                    // Cancelled by the broker (e.g. the queue was deleted): start over
+                    console.warn(`[RabbitConsumer] Consumer of ${this.options.queue} was cancelled by the broker`);
+                    channel.close().catch(() => undefined);
+                }
+            });
+            this.consumerTag = consumerTag;
+            rabbitmqConsumerConnected.set({ queue: this.options.queue }, 1);
+            console.log(`[RabbitConsumer] Consuming ${this.options.queue} (prefetch ${this.options.prefetch})`);
+        } catch (error) {
+            this.reset();
+            await connection.close().catch(() => undefined);
+            throw error;
+        }
+
+        // Stopped while connecting
+        if (!this.running) await this.stop();
+    }
+
+    private handleClose(connection: ChannelModel): void {
+        if (this.connection !== connection) return;
+
+        this.reset();
+        connection.close().catch(() => undefined);
+        if (this.running) {
+            console.warn(`[RabbitConsumer] Connection for ${this.options.queue} closed unexpectedly`);
+            this.scheduleReconnect();
+        }
+    }
+
+    private reset(): void {
+        this.connection = null;
+        this.channel = null;
+        this.consumerTag = null;
+        rabbitmqConsumerConnected.set({ queue: this.options.queue }, 0);
+    }
+
+    private track(handling: Promise<void>): void {
+        this.inFlight.add(handling);
+        handling.finally(() => this.inFlight.delete(handling));
+    }
+
+    private async handle(channel: Channel, message: ConsumeMessage): Promise<void> {
+        let body: unknown;
+        try {
+            body = JSON.parse(message.content.toString());
+        } catch {
+            console.error(`[RabbitConsumer] Rejecting message on ${this.options.queue}: body is not JSON`);
+            this.settle(channel, () => channel.nack(message, false, false));
+            return;
+        }
+
+        let outcome: ConsumeOutcome;
+        try {
+            outcome = await this.handler(body, message);
+        } catch (error) {
+            console.error(`[RabbitConsumer] Handler failed on ${this.options.queue}, retrying in ${this.options.retryDelayMs}ms:`, error);
+            await new Promise((resolve) => setTimeout(resolve, this.options.retryDelayMs));
+            this.settle(channel, () => channel.nack(message, false, true));
+            return;
+        }
+
+        this.settle(channel, () => (outcome === "ack" ? channel.ack(message) : channel.nack(message, false, false)));
+    }
+
+    /**
+     * Ack/nack on the channel the message came from; if it closed, the broker redelivers anyway
+     */
+    private settle(channel: Channel, fn: () => void): void {
+        if (channel !== this.channel) return;
+        try {
+            fn();
+        } catch (error) {
+            console.error(`[RabbitConsumer] Failed to settle message on ${this.options.queue}:`, error);
+        }
+    }
+}
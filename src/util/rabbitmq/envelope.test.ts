@@ -0,0 +1,145 @@
+import { Flash } from "../database/invader-flashes/types";
+import {
+  FLASH_IMAGE_MESSAGE_TYPE,
+  FLASH_IMAGE_MESSAGE_VERSION,
+  FLASH_IMAGE_RESULT_MESSAGE_TYPE,
+  FLASH_IMAGE_RESULT_MESSAGE_VERSION,
+  createEnvelope,
+  createFlashImageMessage,
+  isMessageEnvelope,
+  messageBody,
+  parseFlashImageResult,
+  toFlashImagePayload,
+} from "./envelope";
+
+function flash(overrides: Record<string, unknown> = {}): Flash {
+  return {
+    flash_id: 42,
+    city: "Paris",
+    player: "invader",
+    img: "/img/42.jpg",
+    ipfs_cid: "",
+    text: "PA_1234",
+    timestamp: 1760000000,
+    flash_count: "7",
+    ...overrides,
+  } as Flash;
+}
+
+describe("createFlashImageMessage", () => {
+  it("wraps the flash in a flash.image envelope of the current version", () => {
+    const message = createFlashImageMessage(flash(), { correlationId: "batch-1" });
+
+    expect(message.type).toBe(FLASH_IMAGE_MESSAGE_TYPE);
+    expect(message.version).toBe(FLASH_IMAGE_MESSAGE_VERSION);
+    expect(message.correlation_id).toBe("batch-1");
+    expect(message.trace).toBeNull();
+    expect(new Date(message.produced_at).toISOString()).toBe(message.produced_at);
+    expect(message.payload).toEqual({
+      flash_id: 42,
+      city: "Paris",
+      player: "invader",
+      img: "/img/42.jpg",
+      ipfs_cid: null,
+      text: "PA_1234",
+      timestamp: 1760000000,
+      flash_count: "7",
+    });
+  });
+
+  it("gives every message its own id and no correlation id by default", () => {
+    const first = createFlashImageMessage(flash());
+    const second = createFlashImageMessage(flash());
+
+    expect(first.message_id).not.toBe(second.message_id);
+    expect(first.correlation_id).toBeNull();
+  });
+});
+
+describe("toFlashImagePayload", () => {
+  it("normalizes flashes read back from Postgres to the API's shape", () => {
+    const payload = toFlashImagePayload(
+      flash({ flash_id: "42", timestamp: new Date("2026-10-19T12:00:00.500Z"), flash_count: 7 }),
+    );
+
+    expect(payload.flash_id).toBe(42);
+    expect(payload.timestamp).toBe(Date.parse("2026-10-19T12:00:00Z") / 1000);
+    expect(payload.flash_count).toBe("7");
+  });
+
+  it("accepts timestamps as ISO strings or numeric strings", () => {
+    expect(toFlashImagePayload(flash({ timestamp: "2026-10-19T12:00:00Z" })).timestamp).toBe(
+      Date.parse("2026-10-19T12:00:00Z") / 1000,
+    );
+    expect(toFlashImagePayload(flash({ timestamp: "1760000000" })).timestamp).toBe(1760000000);
+  });
+
+  it("keeps the ipfs_cid once the image is pinned", () => {
+    expect(toFlashImagePayload(flash({ ipfs_cid: "bafy123" })).ipfs_cid).toBe("bafy123");
+  });
+});
+
+describe("messageBody", () => {
+  const message = createFlashImageMessage(flash());
+
+  it("publishes the bare payload by default", () => {
+    expect(messageBody(message, {})).toBe(message.payload);
+    expect(messageBody(message, { RABBITMQ_ENVELOPE: "false" })).toBe(message.payload);
+  });
+
+  it("publishes the whole envelope with RABBITMQ_ENVELOPE=true", () => {
+    expect(messageBody(message, { RABBITMQ_ENVELOPE: "true" })).toBe(message);
+  });
+});
+
+describe("isMessageEnvelope", () => {
+  it("recognizes envelopes of any type", () => {
+    expect(isMessageEnvelope(createEnvelope("flash.image.result", 2, { flash_id: 1 }))).toBe(true);
+  });
+
+  it("rejects bare payloads and non-objects", () => {
+    expect(isMessageEnvelope(toFlashImagePayload(flash()))).toBe(false);
+    expect(isMessageEnvelope({ type: "flash.image", version: "1", message_id: "x", payload: {} })).toBe(false);
+    expect(isMessageEnvelope({ type: "flash.image", version: 1, message_id: "x" })).toBe(false);
+    expect(isMessageEnvelope(null)).toBe(false);
+    expect(isMessageEnvelope("flash.image")).toBe(false);
+  });
+});
+
+describe("parseFlashImageResult", () => {
+  const result = (payload: unknown, type = FLASH_IMAGE_RESULT_MESSAGE_TYPE, version = FLASH_IMAGE_RESULT_MESSAGE_VERSION) =>
+    createEnvelope(type, version, payload);
+
+  it("unwraps a pinned result and coerces the flash id", () => {
+    expect(parseFlashImageResult(result({ flash_id: "42", status: "pinned", ipfs_cid: "bafy123" }))).toEqual({
+      flash_id: 42,
+      status: "pinned",
+      ipfs_cid: "bafy123",
+    });
+  });
+
+  it("accepts a bare payload", () => {
+    expect(parseFlashImageResult({ flash_id: 42, status: "failed", error: "404", permanent: true })).toEqual({
+      flash_id: 42,
+      status: "failed",
+      error: "404",
+      permanent: true,
+    });
+  });
+
+  it("rejects other message types and unknown versions", () => {
+    const payload = { flash_id: 42, status: "failed" };
+    expect(() => parseFlashImageResult(result(payload, FLASH_IMAGE_MESSAGE_TYPE))).toThrow("Unexpected message type flash.image");
+    expect(() => parseFlashImageResult(result(payload, FLASH_IMAGE_RESULT_MESSAGE_TYPE, 2))).toThrow(
+      "Unsupported flash.image.result version 2",
+    );
+  });
+
+  it("rejects unusable payloads", () => {
+    expect(() => parseFlashImageResult(result(null))).toThrow("not an object");
+    expect(() => parseFlashImageResult({ flash_id: "abc", status: "failed" })).toThrow("Invalid flash_id");
+    expect(() => parseFlashImageResult({ flash_id: 0, status: "failed" })).toThrow("Invalid flash_id");
+    expect(() => parseFlashImageResult({ flash_id: 42, status: "pinned", ipfs_cid: " " })).toThrow("has no ipfs_cid");
+    expect(() => parseFlashImageResult({ flash_id: 42, status: "done" })).toThrow("Invalid status");
+  });
+});
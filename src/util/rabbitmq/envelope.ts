@@ -0,0 +1,186 @@
+import { randomUUID } from "crypto";
+import { context, propagation } from "@opentelemetry/api";
+import { Flash } from "../database/invader-flashes/types";
+
+export const FLASH_IMAGE_MESSAGE_TYPE = "flash.image";
+export const FLASH_IMAGE_MESSAGE_VERSION = 1;
+export const FLASH_IMAGE_RESULT_MESSAGE_TYPE = "flash.image.result";
+export const FLASH_IMAGE_RESULT_MESSAGE_VERSION = 1;
+
+// W3C trace context of the code that produced the message
+export interface TraceContext {
+    traceparent: string;
+    tracestate?: string;
+}
+
+export interface MessageEnvelope<T = unknown> {
+    type: string;
+    // Bumped on breaking payload changes; consumers should reject versions they don't know
+    version: number;
+    // Stays the same when the same event is published again, so consumers can dedupe on it
+    message_id: string;
+    // Shared by the messages of one run (a store-flashes batch, a backfill run)
+    correlation_id: string | null;
+    // ISO 8601
+    produced_at: string;
+    trace: TraceContext | null;
+    payload: T;
+}
+
+export interface FlashImagePayload {
+    flash_id: number;
+    city: string;
+    player: string;
+    img: string;
+    // Null until the image processor has pinned the image
+    ipfs_cid: string | null;
+    text: string;
+    // Unix seconds
+    timestamp: number;
+    flash_count: string;
+}
+
+export type FlashImageMessage = MessageEnvelope<FlashImagePayload>;
+
+// The image processor's reply to a flash.image message
+export interface FlashImageResultPayload {
+    flash_id: number;
+    status: "pinned" | "failed";
+    // Set when pinned
+    ipfs_cid?: string;
+    // Set when failed
+    error?: string;
+    // The image can never be processed (e.g. gone upstream), don't publish the flash again
+    permanent?: boolean;
+    // message_id of the flash.image message this answers
+    request_message_id?: string;
+}
+
+export type FlashImageResultMessage = MessageEnvelope<FlashImageResultPayload>;
+
+export interface EnvelopeOptions {
+    correlationId?: string | null;
+}
+
+export function createEnvelope<T>(
+    type: string,
+    version: number,
+    payload: T,
+    options: EnvelopeOptions = {},
+): MessageEnvelope<T> {
+    return {
+        type,
+        version,
+        message_id: randomUUID(),
+        correlation_id: options.correlationId ?? null,
+        produced_at: new Date().toISOString(),
+        trace: currentTraceContext(),
+        payload,
+    };
+}
+
+export function createFlashImageMessage(
+    flash: Flash,
+    options: EnvelopeOptions = {},
+): FlashImageMessage {
+    return createEnvelope(
+        FLASH_IMAGE_MESSAGE_TYPE,
+        FLASH_IMAGE_MESSAGE_VERSION,
+        toFlashImagePayload(flash),
+        options,
+    );
+}
+
+/**
+ * Flashes read back from Postgres carry flash_id as a string (BIGINT) and
+ * timestamp as a Date; the payload always has the API's shape
+ */
+export function toFlashImagePayload(flash: Flash): FlashImagePayload {
+    const timestamp = flash.timestamp as unknown;
+    return {
+        flash_id: Number(flash.flash_id),
+        city: flash.city,
+        player: flash.player,
+        img: flash.img,
+        ipfs_cid: flash.ipfs_cid || null,
+        text: flash.text,
+        timestamp:
+            timestamp instanceof Date
+                ? Math.floor(timestamp.getTime() / 1000)
+                : typeof timestamp === "string" && isNaN(Number(timestamp))
+                  ? Math.floor(Date.parse(timestamp) / 1000)
+                  : Number(timestamp),
+        flash_count: String(flash.flash_count),
+    };
+}
+
+/**
+ * What goes on the wire: the bare payload unless RABBITMQ_ENVELOPE=true. Consumers of the
+ * bare flash break on an envelope, so they must accept both before the producer switches.
+ * The envelope fields are set as AMQP properties either way.
+ */
+export function messageBody(
+    message: MessageEnvelope,
+    env: NodeJS.ProcessEnv = process.env,
+): unknown {
+    return env.RABBITMQ_ENVELOPE === "true" ? message : message.payload;
+}
+
+export function isMessageEnvelope(value: unknown): value is MessageEnvelope {
+    if (typeof value !== "object" || value === null) return false;
+    const envelope = value as Partial<MessageEnvelope>;
+    return (
+        typeof envelope.type === "string" &&
+        typeof envelope.version === "number" &&
+        typeof envelope.message_id === "string" &&
+        "payload" in envelope
+    );
+}
+
+/**
+ * Validate a reply from the result queue. A bare payload (no envelope) is accepted too.
+ * Throws on anything that isn't a usable result.
+ */
+export function parseFlashImageResult(body: unknown): FlashImageResultPayload {
+    let payload: unknown = body;
+    if (isMessageEnvelope(body)) {
+        if (body.type !== FLASH_IMAGE_RESULT_MESSAGE_TYPE) {
+            throw new Error(`Unexpected message type ${body.type}`);
+        }
+        if (body.version !== FLASH_IMAGE_RESULT_MESSAGE_VERSION) {
+            throw new Error(`Unsupported ${body.type} version ${body.version}`);
+        }
+        payload = body.payload;
+    }
+
+    if (typeof payload !== "object" || payload === null) {
+        throw new Error("Result payload is not an object");
+    }
+    const result = payload as Partial<FlashImageResultPayload>;
+    const flashId = Number(result.flash_id);
+    if (!Number.isInteger(flashId) || flashId <= 0) {
+        throw new Error(`Invalid flash_id: ${JSON.stringify(result.flash_id)}`);
+    }
+    if (result.status === "pinned") {
+        if (typeof result.ipfs_cid !== "string" || result.ipfs_cid.trim() === "") {
+            throw new Error(`Pinned result for flash ${flashId} has no ipfs_cid`);
+        }
+    } else if (result.status !== "failed") {
+        throw new Error(`Invalid status for flash ${flashId}: ${JSON.stringify(result.status)}`);
+    }
+
+    return { ...result, flash_id: flashId } as FlashImageResultPayload;
+}
+
+/**
+ * Null when tracing is disabled or there is no active span
+ */
+function currentTraceContext(): TraceContext | null {
+    const carrier: Record<string, string> = {};
+    propagation.inject(context.active(), carrier);
+    if (!carrier.traceparent) return null;
+
+    return carrier.tracestate
+        ? { traceparent: carrier.traceparent, tracestate: carrier.tracestate }
+        : { traceparent: carrier.traceparent };
+}
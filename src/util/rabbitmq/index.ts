@@ -1,11 +1,42 @@
-import { Channel, ChannelModel, connect } from "amqplib";
+import { RabbitConnection, Topology, queueTopology } from "./connection";
+import {
+    FlashPriority,
+    FlashRoutingConfig,
+    flashRoutingConfigFromEnv,
+    flashRoutingKey,
+    flashRoutingTopology,
+    imageQueueTopology,
+} from "./routing";
+import {
+    EnvelopeOptions,
+    FlashImageMessage,
+    MessageEnvelope,
+    createFlashImageMessage,
+    messageBody,
+} from "./envelope";
 import { Flash } from "../database/invader-flashes/types";
-import { messagesPublishedTotal, messagesFailedTotal } from "../metrics";
+import { messagesPublishedTotal } from "../metrics";
 
 export interface ExecuteResponse {
     status: string;
     message: string;
-    flash: Flash;
+    message_id: string;
+}
+
+export interface PublishDestination {
+    // "" is the default exchange, where the routing key is the queue name
+    exchange: string;
+    routingKey: string;
+    topology: Topology;
+}
+
+export interface FlashPublishOptions extends EnvelopeOptions {
+    priority: FlashPriority;
+}
+
+export interface RoutedFlashMessage {
+    message: FlashImageMessage;
+    priority: FlashPriority;
 }
 
 export interface WrapUnwrapPayload {
@@ -14,6 +45,9 @@ export interface WrapUnwrapPayload {
 
 // --- Base Class ---
 export abstract class RabbitMQBase {
+    // One long-lived connection per broker URL, shared by every publisher
+    private static connections = new Map<string, RabbitConnection>();
+
     protected rabbitUrl: string;
 
     constructor() {
@@ -26,60 +60,82 @@ export abstract class RabbitMQBase {
         }
     }
 
-    protected async withChannel<T>(
-        fn: (channel: Channel) => Promise<T>,
-    ): Promise<T> {
-        let connection: ChannelModel | undefined = undefined;
-        let channel: Channel | undefined = undefined;
-        try {
-            connection = await connect(this.rabbitUrl);
-            channel = await connection.createChannel();
-            return await fn(channel);
-        } finally {
-            if (channel) {
-                try {
-                    await channel.close();
-                } catch {}
-            }
-            if (connection) {
-                try {
-                    await connection.close();
-                } catch {}
-            }
+    protected get connection(): RabbitConnection {
+        let connection = RabbitMQBase.connections.get(this.rabbitUrl);
+        if (!connection) {
+            connection = new RabbitConnection(this.rabbitUrl);
+            RabbitMQBase.connections.set(this.rabbitUrl, connection);
         }
+        return connection;
+    }
+
+    /**
+     * Whether the shared connection to the broker is currently up
+     */
+    public isConnected(): boolean {
+        return this.connection.isConnected();
+    }
+
+    /**
+     * Close the shared connections; publishes still waiting for an ack fail
+     */
+    public static async closeAll(): Promise<void> {
+        const connections = [...RabbitMQBase.connections.values()];
+        RabbitMQBase.connections.clear();
+        await Promise.allSettled(connections.map((c) => c.close()));
+    }
+
+    /**
+     * Resolves once the broker confirmed the message. The envelope fields are
+     * also set as AMQP properties, so consumers can route or dedupe without parsing the body.
+     */
+    protected async publishMessage(
+        destination: PublishDestination,
+        message: MessageEnvelope,
+    ): Promise<ExecuteResponse> {
+        await this.connection.publish(
+            destination.exchange,
+            destination.routingKey,
+            Buffer.from(JSON.stringify(messageBody(message))),
+            {
+                persistent: true,
+                contentType: "application/json",
+                messageId: message.message_id,
+                correlationId: message.correlation_id ?? undefined,
+                type: message.type,
+                timestamp: Math.floor(Date.parse(message.produced_at) / 1000),
+                headers: {
+                    "x-message-version": message.version,
+                    ...(message.trace ?? {}),
+                },
+            },
+            destination.topology,
+        );
+        messagesPublishedTotal.inc();
+        return {
+            status: "queued",
+            message: `Event published to RabbitMQ ${destination.exchange ? `exchange ${destination.exchange} (${destination.routingKey})` : `queue ${destination.routingKey}`}: ${message.type} ${message.message_id}`,
+            message_id: message.message_id,
+        };
     }
 
     protected async publishToQueue(
         queue: string,
-        payload: Flash,
+        message: MessageEnvelope,
     ): Promise<ExecuteResponse> {
-        return this.withChannel(async (channel) => {
-            await channel.assertQueue(queue, { durable: true });
-            const sent = channel.sendToQueue(
-                queue,
-                Buffer.from(JSON.stringify(payload)),
-                { persistent: true },
-            );
-            if (!sent) {
-                messagesFailedTotal.inc();
-                throw new Error(
-                    `Failed to send message to RabbitMQ queue: ${queue}`,
-                );
-            }
-            messagesPublishedTotal.inc();
-            return {
-                status: "queued",
-                message: `Event published to RabbitMQ queue: ${queue}: ${payload.flash_id}`,
-                flash: payload,
-            };
-        });
+        return this.publishMessage(
+            { exchange: "", routingKey: queue, topology: queueTopology(queue) },
+            message,
+        );
     }
 }
 
 // --- Subclasses ---
 export class RabbitImagePush extends RabbitMQBase {
     private queue: string;
-    constructor() {
+    private routing: FlashRoutingConfig;
+
+    constructor(routing: FlashRoutingConfig = flashRoutingConfigFromEnv()) {
         super();
 
         this.queue = process.env.RABBITMQ_QUEUE!;
@@ -88,8 +144,57 @@ export class RabbitImagePush extends RabbitMQBase {
                 "RABBITMQ_QUEUE is not defined in the environment variables",
             );
         }
+        this.routing = routing;
+    }
+
+    async publish(
+        flash: Flash,
+        options: FlashPublishOptions,
+    ): Promise<ExecuteResponse> {
+        const message = createFlashImageMessage(flash, options);
+        return this.publishMessage(
+            this.destination(options.priority, message.payload.city),
+            message,
+        );
     }
-    async publish(payload: Flash): Promise<ExecuteResponse> {
-        return this.publishToQueue(this.queue, payload);
+
+    /**
+     * Publish messages built earlier (e.g. stored in the outbox), keeping their message_id.
+     * Everything is sent on the confirm channel before waiting for the acks; results are in message order.
+     */
+    async publishMessages(
+        messages: RoutedFlashMessage[],
+    ): Promise<PromiseSettledResult<ExecuteResponse>[]> {
+        return Promise.allSettled(
+            messages.map(({ message, priority }) =>
+                this.publishMessage(
+                    this.destination(priority, message.payload.city),
+                    message,
+                ),
+            ),
+        );
+    }
+
+    /**
+     * Through the topic exchange when RABBITMQ_EXCHANGE is set, otherwise straight to RABBITMQ_QUEUE
+     */
+    private destination(
+        priority: FlashPriority,
+        city: string,
+    ): PublishDestination {
+        const { exchange, queues, deadLetter } = this.routing;
+        if (!exchange) {
+            return {
+                exchange: "",
+                routingKey: this.queue,
+                topology: imageQueueTopology(this.queue, deadLetter),
+            };
+        }
+
+        return {
+            exchange,
+            routingKey: flashRoutingKey(priority, city),
+            topology: flashRoutingTopology(exchange, queues, deadLetter),
+        };
     }
 }
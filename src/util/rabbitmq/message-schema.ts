@@ -0,0 +1,132 @@
+import {
+    FLASH_IMAGE_MESSAGE_TYPE,
+    FLASH_IMAGE_MESSAGE_VERSION,
+    FLASH_IMAGE_RESULT_MESSAGE_TYPE,
+    FLASH_IMAGE_RESULT_MESSAGE_VERSION,
+} from "./envelope";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema (draft 2020-12) of MessageEnvelope with the given payload.
+ * Keep in sync with the interfaces in ./envelope; `yarn schemas:export` writes them to schemas/.
+ */
+function envelopeJsonSchema(
+    type: string,
+    version: number,
+    title: string,
+    payload: JsonSchema,
+): JsonSchema {
+    return {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: `urn:invaders-bot:message:${type}:v${version}`,
+        title,
+        type: "object",
+        required: [
+            "type",
+            "version",
+            "message_id",
+            "correlation_id",
+            "produced_at",
+            "trace",
+            "payload",
+        ],
+        properties: {
+            type: { const: type },
+            version: { const: version },
+            message_id: {
+                type: "string",
+                format: "uuid",
+                description: "Same value when an event is published again; dedupe on it",
+            },
+            correlation_id: {
+                type: ["string", "null"],
+                description: "Shared by the messages of one producer run",
+            },
+            produced_at: { type: "string", format: "date-time" },
+            trace: {
+                oneOf: [
+                    { type: "null" },
+                    {
+                        type: "object",
+                        description: "W3C trace context",
+                        required: ["traceparent"],
+                        properties: {
+                            traceparent: { type: "string" },
+                            tracestate: { type: "string" },
+                        },
+                        additionalProperties: false,
+                    },
+                ],
+            },
+            payload,
+        },
+        // Optional fields may be added within a version; consumers should ignore unknown ones
+        additionalProperties: true,
+    };
+}
+
+export const flashImageMessageJsonSchema = envelopeJsonSchema(
+    FLASH_IMAGE_MESSAGE_TYPE,
+    FLASH_IMAGE_MESSAGE_VERSION,
+    "Flash image processing request",
+    {
+        type: "object",
+        required: [
+            "flash_id",
+            "city",
+            "player",
+            "img",
+            "ipfs_cid",
+            "text",
+            "timestamp",
+            "flash_count",
+        ],
+        properties: {
+            flash_id: { type: "integer" },
+            city: { type: "string" },
+            player: { type: "string" },
+            img: { type: "string" },
+            ipfs_cid: { type: ["string", "null"] },
+            text: { type: "string" },
+            timestamp: { type: "integer", description: "Unix seconds" },
+            flash_count: { type: "string" },
+        },
+        additionalProperties: true,
+    },
+);
+
+export const flashImageResultMessageJsonSchema = envelopeJsonSchema(
+    FLASH_IMAGE_RESULT_MESSAGE_TYPE,
+    FLASH_IMAGE_RESULT_MESSAGE_VERSION,
+    "Flash image processing result (image processor -> bot)",
+    {
+        type: "object",
+        required: ["flash_id", "status"],
+        properties: {
+            flash_id: { type: "integer" },
+            status: { enum: ["pinned", "failed"] },
+            ipfs_cid: { type: "string", description: "Required when pinned" },
+            error: { type: "string" },
+            permanent: {
+                type: "boolean",
+                description: "The image can never be processed; the bot stops publishing the flash",
+            },
+            request_message_id: {
+                type: "string",
+                description: "message_id of the flash.image message this answers",
+            },
+        },
+        if: { properties: { status: { const: "pinned" } } },
+        then: { required: ["ipfs_cid"] },
+        additionalProperties: true,
+    },
+);
+
+// File name (under schemas/) -> schema
+export const MESSAGE_JSON_SCHEMAS: Record<string, JsonSchema> = {
+    [`${FLASH_IMAGE_MESSAGE_TYPE}.v${FLASH_IMAGE_MESSAGE_VERSION}.json`]:
+        flashImageMessageJsonSchema,
+    [`${FLASH_IMAGE_RESULT_MESSAGE_TYPE}.v${FLASH_IMAGE_RESULT_MESSAGE_VERSION}.json`]:
+        flashImageResultMessageJsonSchema,
+};
@@ -0,0 +1,121 @@
+import { Channel, Options } from "amqplib";
+import { Topology } from "./connection";
+
+// high: flashes of Flashcastr users, which gate auto-casts
+// low: bulk flashes and backfills
+export type FlashPriority = "high" | "low";
+
+export const FLASH_PRIORITIES: FlashPriority[] = ["high", "low"];
+
+export interface FlashRoutingConfig {
+    // Topic exchange; null publishes everything straight to RABBITMQ_QUEUE
+    exchange: string | null;
+    queues: Record<FlashPriority, string>;
+    deadLetter: DeadLetterConfig;
+}
+
+export interface DeadLetterConfig {
+    // Fanout exchange the image queues dead-letter to; null declares the queues without one
+    exchange: string | null;
+    // Bound to the exchange, consumed into quarantined_flashes
+    queue: string;
+}
+
+export function flashRoutingConfigFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+): FlashRoutingConfig {
+    const queue = env.RABBITMQ_QUEUE || "";
+    return {
+        exchange: env.RABBITMQ_EXCHANGE || null,
+        queues: {
+            high: env.RABBITMQ_QUEUE_HIGH || `${queue}.high`,
+            low: env.RABBITMQ_QUEUE_LOW || `${queue}.low`,
+        },
+        deadLetter: deadLetterConfigFromEnv(env),
+    };
+}
+
+export function deadLetterConfigFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+): DeadLetterConfig {
+    return {
+        exchange: env.RABBITMQ_DEAD_LETTER_EXCHANGE || null,
+        queue:
+            env.RABBITMQ_DEAD_LETTER_QUEUE ||
+            `${env.RABBITMQ_QUEUE || ""}.dead`,
+    };
+}
+
+/**
+ * flash.<priority>.<city>, e.g. flash.high.paris or flash.low.los-angeles.
+ * Consumers can bind extra queues with patterns like `flash.*.paris`.
+ */
+export function flashRoutingKey(priority: FlashPriority, city: string): string {
+    const slug = (city || "")
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    return `flash.${priority}.${slug || "unknown"}`;
+}
+
+/**
+ * The topic exchange with one durable queue per priority bound to flash.<priority>.#
+ */
+export function flashRoutingTopology(
+    exchange: string,
+    queues: Record<FlashPriority, string>,
+    deadLetter: DeadLetterConfig,
+): Topology {
+    return {
+        key: `exchange:${exchange}`,
+        assert: async (channel) => {
+            await assertDeadLetter(channel, deadLetter);
+            await channel.assertExchange(exchange, "topic", { durable: true });
+            for (const priority of FLASH_PRIORITIES) {
+                await channel.assertQueue(queues[priority], imageQueueOptions(deadLetter));
+                await channel.bindQueue(queues[priority], exchange, `flash.${priority}.#`);
+            }
+        },
+    };
+}
+
+/**
+ * RABBITMQ_QUEUE on the default exchange, when no topic exchange is configured
+ */
+export function imageQueueTopology(
+    queue: string,
+    deadLetter: DeadLetterConfig,
+): Topology {
+    return {
+        key: `queue:${queue}`,
+        assert: async (channel) => {
+            await assertDeadLetter(channel, deadLetter);
+            await channel.assertQueue(queue, imageQueueOptions(deadLetter));
+        },
+    };
+}
+
+/**
+ * Queue arguments can't change once a queue exists: RabbitMQ closes the channel with
+ * PRECONDITION_FAILED, so turning dead-lettering on means recreating the image queues
+ */
+function imageQueueOptions(deadLetter: DeadLetterConfig): Options.AssertQueue {
+    return deadLetter.exchange
+        ? { durable: true, deadLetterExchange: deadLetter.exchange }
+        : { durable: true };
+}
+
+async function assertDeadLetter(
+    channel: Channel,
+    deadLetter: DeadLetterConfig,
+): Promise<void> {
+    if (!deadLetter.exchange) return;
+
+    await channel.assertExchange(deadLetter.exchange, "fanout", {
+        durable: true,
+    });
+    await channel.assertQueue(deadLetter.queue, { durable: true });
+    await channel.bindQueue(deadLetter.queue, deadLetter.exchange, "");
+}
@@ -0,0 +1,284 @@
+import { config } from "dotenv";
+import { parseIntegerEnv } from "../config/env";
+import { PostgresFlashesDb } from "../database/invader-flashes";
+import { FlashArrivalRate } from "../database/invader-flashes/types";
+
+config({ path: ".env" });
+
+// ISO weekday numbers, 1 = Monday ... 7 = Sunday
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+export interface PeakWindow {
+  // Minutes since local midnight, start inclusive, end exclusive (1440 = 24:00)
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface SchedulingPolicyConfig {
+  // IANA timezone the peak windows are expressed in
+  timezone: string;
+  // Peak windows per ISO weekday; ticks outside them are off-peak
+  peakWindows: Record<number, PeakWindow[]>;
+  // Off-peak, only every Nth tick runs
+  offPeakRunEvery: number;
+  adaptive: {
+    enabled: boolean;
+    lookbackDays: number;
+    // Cadence for the quietest hours; busier hours run proportionally more often
+    maxRunEvery: number;
+    // Below this many flashes in the lookback, fall back to the peak windows
+    minFlashes: number;
+    refreshMs: number;
+  };
+}
+
+export interface ScheduleDecision {
+  run: boolean;
+  mode: "peak" | "off_peak" | "adaptive";
+  runEvery: number;
+  // Local weekday and time the decision was made for, e.g. "sat 23:40"
+  localTime: string;
+  reason: string;
+}
+
+interface LocalTime {
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Decides whether a scheduled tick should actually hit the API.
+ *
+ * Peak windows are evaluated in an IANA timezone (DST-aware via Intl), and
+ * throttled ticks are skipped on a deterministic cadence (every Nth tick).
+ * In adaptive mode the cadence for each local weekday/hour comes from
+ * historical flash arrival rates instead of the fixed windows.
+ */
+export class SchedulingPolicy {
+  private config: SchedulingPolicyConfig;
+  private flashesDb: PostgresFlashesDb | null;
+  private formatter: Intl.DateTimeFormat;
+  private throttledTicks: number = 0;
+  private arrivalRates: Map<string, number> | null = null;
+  private maxArrivalRate: number = 0;
+  private ratesLoadedAt: number = 0;
+
+  constructor(config: SchedulingPolicyConfig, flashesDb?: PostgresFlashesDb) {
+    this.config = config;
+    this.flashesDb = flashesDb ?? null;
+    this.formatter = localTimeFormatter(config.timezone);
+  }
+
+  /**
+   * Switch to another configuration, e.g. the validated AppConfig.scheduling at startup.
+   * Arrival rates are loaded again; the tick cadence carries over.
+   */
+  public configure(config: SchedulingPolicyConfig): void {
+    this.config = config;
+    this.formatter = localTimeFormatter(config.timezone);
+    this.arrivalRates = null;
+    this.ratesLoadedAt = 0;
+  }
+
+  public async shouldRun(now: Date = new Date()): Promise<ScheduleDecision> {
+    const local = this.toLocalTime(now);
+    const localTime = `${WEEKDAYS[local.weekday - 1]} ${pad(local.hour)}:${pad(local.minute)}`;
+
+    if (this.config.adaptive.enabled && (await this.loadArrivalRates(now.getTime()))) {
+      const runEvery = this.adaptiveRunEvery(local);
+      return this.decide("adaptive", runEvery, localTime);
+    }
+
+    if (this.isPeak(local)) {
+      return this.decide("peak", 1, localTime);
+    }
+
+    return this.decide("off_peak", this.config.offPeakRunEvery, localTime);
+  }
+
+  public isPeak(local: LocalTime): boolean {
+    const minute = local.hour * 60 + local.minute;
+    const windows = this.config.peakWindows[local.weekday] ?? [];
+    return windows.some((w) => minute >= w.startMinute && minute < w.endMinute);
+  }
+
+  public toLocalTime(date: Date): LocalTime {
+    const parts = Object.fromEntries(this.formatter.formatToParts(date).map((p) => [p.type, p.value]));
+
+    return {
+      weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()) + 1,
+      hour: parseInt(parts.hour, 10),
+      minute: parseInt(parts.minute, 10),
+    };
+  }
+
+  private decide(mode: ScheduleDecision["mode"], runEvery: number, localTime: string): ScheduleDecision {
+    if (runEvery <= 1) {
+      this.throttledTicks = 0;
+      return { run: true, mode, runEvery: 1, localTime, reason: `${mode} at ${localTime}` };
+    }
+
+    // The first throttled tick runs, then every Nth after it
+    const run = this.throttledTicks % runEvery === 0;
+    this.throttledTicks++;
+
+    return {
+      run,
+      mode,
+      runEvery,
+      localTime,
+      reason: `${mode} at ${localTime}, running every ${runEvery} ticks`,
+    };
+  }
+
+  private adaptiveRunEvery(local: LocalTime): number {
+    const count = this.arrivalRates!.get(`${local.weekday}:${local.hour}`) ?? 0;
+    if (count === 0) return this.config.adaptive.maxRunEvery;
+
+    const runEvery = Math.round(this.maxArrivalRate / count);
+    return Math.min(Math.max(runEvery, 1), this.config.adaptive.maxRunEvery);
+  }
+
+  /**
+   * Refresh the weekday/hour histogram when stale. Returns false when there isn't
+   * enough history (or the query failed), so the caller falls back to peak windows.
+   */
+  private async loadArrivalRates(now: number): Promise<boolean> {
+    if (this.arrivalRates && now - this.ratesLoadedAt < this.config.adaptive.refreshMs) {
+      return true;
+    }
+
+    try {
+      if (!this.flashesDb) this.flashesDb = new PostgresFlashesDb();
+      const rates: FlashArrivalRate[] = await this.flashesDb.getArrivalRates(
+        this.config.timezone,
+        this.config.adaptive.lookbackDays,
+      );
+      const total = rates.reduce((sum, r) => sum + r.count, 0);
+
+      this.ratesLoadedAt = now;
+      if (total < this.config.adaptive.minFlashes) {
+        console.log(
+          `[SchedulingPolicy] Only ${total} flashes in the last ${this.config.adaptive.lookbackDays} days, using peak windows`,
+        );
+        this.arrivalRates = null;
+        return false;
+      }
+
+      this.arrivalRates = new Map(rates.map((r) => [`${r.weekday}:${r.hour}`, r.count]));
+      this.maxArrivalRate = Math.max(...rates.map((r) => r.count));
+      console.log(`[SchedulingPolicy] Loaded arrival rates from ${total} flashes (busiest hour: ${this.maxArrivalRate})`);
+      return true;
+    } catch (error) {
+      console.error("[SchedulingPolicy] Failed to load flash arrival rates, using peak windows:", error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Parse peak windows like "mon-fri=06:00-23:00;sat,sun=08:00-12:00,14:00-24:00".
+ * Days not mentioned have no peak window.
+ */
+export function parsePeakWindows(spec: string): Record<number, PeakWindow[]> {
+  const windows: Record<number, PeakWindow[]> = {};
+
+  for (const entry of spec.split(";").map((e) => e.trim()).filter(Boolean)) {
+    const [daysSpec, rangesSpec] = entry.split("=");
+    if (!daysSpec || !rangesSpec) {
+      throw new Error(`Invalid peak window "${entry}", expected days=HH:MM-HH:MM`);
+    }
+
+    const ranges = rangesSpec.split(",").map((r) => parseTimeRange(r.trim(), entry));
+    for (const day of parseDays(daysSpec.trim(), entry)) {
+      windows[day] = [...(windows[day] ?? []), ...ranges];
+    }
+  }
+
+  return windows;
+}
+
+function parseDays(spec: string, entry: string): number[] {
+  const days: number[] = [];
+
+  for (const part of spec.toLowerCase().split(",")) {
+    const [from, to] = part.trim().split("-");
+    const start = WEEKDAYS.indexOf(from) + 1;
+    const end = to === undefined ? start : WEEKDAYS.indexOf(to) + 1;
+    if (start === 0 || end === 0 || end < start) {
+      throw new Error(`Invalid weekday range "${part}" in peak window "${entry}"`);
+    }
+    for (let day = start; day <= end; day++) days.push(day);
+  }
+
+  return days;
+}
+
+function parseTimeRange(spec: string, entry: string): PeakWindow {
+  const match = spec.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid time range "${spec}" in peak window "${entry}", expected HH:MM-HH:MM`);
+  }
+
+  const startMinute = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  const endMinute = parseInt(match[3], 10) * 60 + parseInt(match[4], 10);
+  if (startMinute >= endMinute || endMinute > 24 * 60) {
+    throw new Error(`Invalid time range "${spec}" in peak window "${entry}" (windows cannot cross midnight)`);
+  }
+
+  return { startMinute, endMinute };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function schedulingPolicyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SchedulingPolicyConfig {
+  return {
+    timezone: env.SCHEDULE_TIMEZONE || "Europe/Paris",
+    peakWindows: parsePeakWindows(env.SCHEDULE_PEAK_WINDOWS || "mon-sun=06:00-23:00"),
+    offPeakRunEvery: parseIntegerEnv(env, "SCHEDULE_OFF_PEAK_RUN_EVERY", 2, 1),
+    adaptive: {
+      enabled: env.SCHEDULE_ADAPTIVE === "true",
+      lookbackDays: parseIntegerEnv(env, "SCHEDULE_ADAPTIVE_LOOKBACK_DAYS", 28, 1),
+      maxRunEvery: parseIntegerEnv(env, "SCHEDULE_ADAPTIVE_MAX_RUN_EVERY", 6, 1),
+      minFlashes: parseIntegerEnv(env, "SCHEDULE_ADAPTIVE_MIN_FLASHES", 500, 0),
+      refreshMs: parseIntegerEnv(env, "SCHEDULE_ADAPTIVE_REFRESH_MS", 21600000, 1),
+    },
+  };
+}
+
+function localTimeFormatter(timezone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Throws on an invalid configuration (e.g. an unknown SCHEDULE_TIMEZONE) rather than
+ * running on defaults that call the API at the wrong hours
+ */
+function createSchedulingPolicyFromEnv(): SchedulingPolicy {
+  const policyConfig = schedulingPolicyConfigFromEnv();
+  console.log(
+    `[SchedulingPolicy] Timezone ${policyConfig.timezone}, off-peak every ${policyConfig.offPeakRunEvery} ticks${policyConfig.adaptive.enabled ? ", adaptive" : ""}`,
+  );
+  return new SchedulingPolicy(policyConfig);
+}
+
+// Shared so the tick cadence carries over between cron runs
+export const schedulingPolicy = createSchedulingPolicyFromEnv();
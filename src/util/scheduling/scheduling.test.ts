@@ -0,0 +1,133 @@
+import { SchedulingPolicy, SchedulingPolicyConfig, parsePeakWindows, schedulingPolicyConfigFromEnv } from ".";
+
+jest.mock("../database/invader-flashes", () => ({ PostgresFlashesDb: jest.fn() }));
+
+function policy(timezone: string, peakWindows: string, offPeakRunEvery: number = 3): SchedulingPolicy {
+  const config: SchedulingPolicyConfig = {
+    timezone,
+    peakWindows: parsePeakWindows(peakWindows),
+    offPeakRunEvery,
+    adaptive: { enabled: false, lookbackDays: 28, maxRunEvery: 6, minFlashes: 500, refreshMs: 60_000 },
+  };
+  return new SchedulingPolicy(config);
+}
+
+describe("parsePeakWindows", () => {
+  it("expands weekday ranges and lists", () => {
+    expect(parsePeakWindows("mon-wed=06:00-23:00;sat,sun=08:00-12:00,14:00-24:00")).toEqual({
+      1: [{ startMinute: 360, endMinute: 1380 }],
+      2: [{ startMinute: 360, endMinute: 1380 }],
+      3: [{ startMinute: 360, endMinute: 1380 }],
+      6: [
+        { startMinute: 480, endMinute: 720 },
+        { startMinute: 840, endMinute: 1440 },
+      ],
+      7: [
+        { startMinute: 480, endMinute: 720 },
+        { startMinute: 840, endMinute: 1440 },
+      ],
+    });
+  });
+
+  it("adds up windows given for the same day twice", () => {
+    expect(parsePeakWindows("mon=06:00-09:00; MON=17:00-20:00")[1]).toEqual([
+      { startMinute: 360, endMinute: 540 },
+      { startMinute: 1020, endMinute: 1200 },
+    ]);
+  });
+
+  it("has no windows for an empty spec", () => {
+    expect(parsePeakWindows("")).toEqual({});
+  });
+
+  it.each([
+    ["mon-fri", "expected days=HH:MM-HH:MM"],
+    ["fri-mon=06:00-23:00", 'Invalid weekday range "fri-mon"'],
+    ["funday=06:00-23:00", 'Invalid weekday range "funday"'],
+    ["mon=6-23", 'Invalid time range "6-23"'],
+    ["mon=22:00-02:00", "windows cannot cross midnight"],
+    ["mon=23:00-24:30", "windows cannot cross midnight"],
+  ])("rejects %s", (spec, message) => {
+    expect(() => parsePeakWindows(spec)).toThrow(message);
+  });
+});
+
+describe("schedulingPolicyConfigFromEnv", () => {
+  it("defaults every setting", () => {
+    expect(schedulingPolicyConfigFromEnv({})).toMatchObject({
+      timezone: "Europe/Paris",
+      offPeakRunEvery: 2,
+      adaptive: { enabled: false, lookbackDays: 28, maxRunEvery: 6, minFlashes: 500, refreshMs: 21600000 },
+    });
+  });
+
+  it.each([
+    ["SCHEDULE_OFF_PEAK_RUN_EVERY", "abc"],
+    ["SCHEDULE_OFF_PEAK_RUN_EVERY", "0"],
+    ["SCHEDULE_ADAPTIVE_LOOKBACK_DAYS", "2.5"],
+    ["SCHEDULE_ADAPTIVE_MAX_RUN_EVERY", "six"],
+  ])("rejects %s=%s", (key, value) => {
+    expect(() => schedulingPolicyConfigFromEnv({ [key]: value })).toThrow(`${key} must be an integer >= 1, got: ${value}`);
+  });
+});
+
+describe("SchedulingPolicy", () => {
+  it("rejects an unknown timezone", () => {
+    expect(() => policy("Europe/Atlantis", "")).toThrow("Invalid time zone");
+  });
+
+  it("evaluates windows in local time", () => {
+    const paris = policy("Europe/Paris", "mon-sun=06:00-23:00");
+
+    // 05:30 UTC is 07:30 in Paris in summer
+    expect(paris.toLocalTime(new Date("2026-07-01T05:30:00Z"))).toEqual({ weekday: 3, hour: 7, minute: 30 });
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-07-01T05:30:00Z")))).toBe(true);
+    // 21:30 UTC is 23:30, past the window
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-07-01T21:30:00Z")))).toBe(false);
+  });
+
+  it("follows the spring forward DST switch", () => {
+    // Europe/Paris skips 02:00-03:00 on 2026-03-29 (01:00 UTC)
+    const paris = policy("Europe/Paris", "sun=03:00-23:00");
+
+    expect(paris.toLocalTime(new Date("2026-03-29T00:59:00Z"))).toEqual({ weekday: 7, hour: 1, minute: 59 });
+    expect(paris.toLocalTime(new Date("2026-03-29T01:00:00Z"))).toEqual({ weekday: 7, hour: 3, minute: 0 });
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-03-29T00:59:00Z")))).toBe(false);
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-03-29T01:00:00Z")))).toBe(true);
+  });
+
+  it("follows the fall back DST switch", () => {
+    // Europe/Paris goes through 02:00-03:00 twice on 2026-10-25 (00:00-02:00 UTC)
+    const paris = policy("Europe/Paris", "sun=02:00-03:00");
+
+    expect(paris.toLocalTime(new Date("2026-10-25T00:30:00Z"))).toEqual({ weekday: 7, hour: 2, minute: 30 });
+    expect(paris.toLocalTime(new Date("2026-10-25T01:30:00Z"))).toEqual({ weekday: 7, hour: 2, minute: 30 });
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-10-25T01:30:00Z")))).toBe(true);
+    expect(paris.isPeak(paris.toLocalTime(new Date("2026-10-25T02:00:00Z")))).toBe(false);
+  });
+
+  it("uses the local weekday across midnight", () => {
+    const tokyo = policy("Asia/Tokyo", "sat=00:00-24:00");
+
+    // Friday 20:00 UTC is already Saturday 05:00 in Tokyo
+    const local = tokyo.toLocalTime(new Date("2026-10-16T20:00:00Z"));
+    expect(local).toEqual({ weekday: 6, hour: 5, minute: 0 });
+    expect(tokyo.isPeak(local)).toBe(true);
+  });
+
+  it("runs every tick at peak and every Nth tick off-peak", async () => {
+    const paris = policy("Europe/Paris", "mon-sun=06:00-23:00", 3);
+    const offPeak = new Date("2026-07-01T23:30:00Z");
+    const peak = new Date("2026-07-01T10:00:00Z");
+
+    const runs: boolean[] = [];
+    for (let i = 0; i < 5; i++) {
+      runs.push((await paris.shouldRun(offPeak)).run);
+    }
+    expect(runs).toEqual([true, false, false, true, false]);
+
+    expect(await paris.shouldRun(peak)).toMatchObject({ run: true, mode: "peak", runEvery: 1, localTime: "wed 12:00" });
+    // Back off-peak, the cadence starts over
+    expect((await paris.shouldRun(offPeak)).run).toBe(true);
+  });
+});
@@ -34,11 +34,6 @@ export function initTracing(): NodeSDK | null {
   sdk.start();
   console.log("[Tracing] OpenTelemetry initialized successfully");
 
-  process.on("SIGTERM", () => {
-    sdk.shutdown()
-      .then(() => console.log("[Tracing] OpenTelemetry shut down"))
-      .catch((err) => console.error("[Tracing] Error shutting down", err));
-  });
-
+  // Shutdown (flushing pending spans) is driven by the lifecycle manager, see src/index.ts
   return sdk;
 }